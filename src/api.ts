@@ -0,0 +1,332 @@
+import { randomBytes, timingSafeEqual } from 'crypto'
+import {
+  createServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse
+} from 'http'
+import { AddressInfo } from 'net'
+import { Duplex } from 'stream'
+import { IProperty, PropertyError } from './properties'
+import Server from './servers/server'
+import ServerManager from './serverManager'
+import { ServerStateError } from './shared'
+import WebSocket from './websocket'
+
+export interface IApiOptions {
+  host: string
+  port: number
+  /** The token clients must send as a bearer token, a random token is generated if empty */
+  token: string
+}
+
+/** The id used for a single server */
+const DEFAULT_ID = 'default'
+
+/**
+ * An HTTP API to control a server or every server of a manager, events are streamed over a WebSocket
+ *
+ * - `GET /servers` and `GET /servers/:id` get the state, players and version
+ * - `POST /servers/:id/start`, `/stop` and `/restart`
+ * - `POST /servers/:id/execute` with `{ "command": "..." }` responds with the output
+ * - `GET /servers/:id/properties`, `GET /servers/:id/properties/:name` and `PUT /servers/:id/properties` with `{ "name": value }`
+ * - `GET /events` upgrades to a WebSocket, `?server=:id` limits the events to one server
+ *
+ * Requests must send `Authorization: Bearer <token>`, WebSocket clients can use `?token=<token>` instead.
+ */
+export default class ApiServer {
+  target: Server | ServerManager
+  options: IApiOptions
+  #http?: HttpServer
+  #sockets = new Map<WebSocket, string | undefined>()
+  #unsubscribe?: () => void
+
+  static DefaultOptions: IApiOptions = {
+    host: '127.0.0.1',
+    port: 8080,
+    token: ''
+  }
+
+  /** The server events streamed to WebSocket clients */
+  static Events = ['message', 'stateUpdate', 'download', 'metrics'] as const
+
+  /** The largest request body accepted in bytes */
+  static MaxBodySize = 1024 * 1024
+
+  constructor(target: Server | ServerManager, options?: Partial<IApiOptions>) {
+    this.target = target
+    this.options = Object.assign(
+      structuredClone(ApiServer.DefaultOptions),
+      options
+    )
+    if (!this.options.token)
+      this.options.token = randomBytes(24).toString('hex')
+  }
+
+  get token() {
+    return this.options.token
+  }
+
+  /**
+   * Starts listening for requests
+   * @returns The address the API is listening on
+   */
+  async listen() {
+    if (this.#http) return this.#http.address() as AddressInfo
+    const http = createServer((req, res) => {
+      this.#request(req, res).catch(err => this.#error(res, err))
+    })
+    http.on('upgrade', (req, socket) => this.#upgrade(req, socket))
+    await new Promise<void>((resolve, reject) => {
+      http.once('error', reject)
+      http.listen(this.options.port, this.options.host, () => {
+        http.off('error', reject)
+        resolve()
+      })
+    })
+    this.#http = http
+    this.#unsubscribe = this.#subscribe()
+    return http.address() as AddressInfo
+  }
+
+  /** Closes every WebSocket and stops listening */
+  async close() {
+    const http = this.#http
+    if (!http) return
+    this.#http = undefined
+    this.#unsubscribe?.()
+    for (const socket of this.#sockets.keys()) socket.close(1001)
+    this.#sockets.clear()
+    await new Promise<void>(resolve => http.close(() => resolve()))
+  }
+
+  /** Gets the ids of the servers */
+  get ids() {
+    return this.target instanceof ServerManager
+      ? [...this.target.servers.keys()]
+      : [DEFAULT_ID]
+  }
+
+  getServer(id: string) {
+    if (this.target instanceof ServerManager) return this.target.get(id)
+    return id === DEFAULT_ID ? this.target : undefined
+  }
+
+  async #request(req: IncomingMessage, res: ServerResponse) {
+    if (!this.#authorize(req))
+      return this.#send(res, 401, { error: 'Unauthorized' })
+    const url = new URL(req.url || '/', 'http://localhost')
+    const [resource, id, action, name] = url.pathname
+      .split('/')
+      .filter(part => !!part)
+      .map(decodeURIComponent)
+    const method = req.method || 'GET'
+    if (resource !== 'servers') return this.#notFound(res)
+
+    if (!id) {
+      if (method !== 'GET') return this.#notFound(res)
+      const servers = await Promise.all(
+        this.ids.map(id => this.#describe(id, this.getServer(id) as Server))
+      )
+      return this.#send(res, 200, servers)
+    }
+
+    const server = this.getServer(id)
+    if (!server)
+      return this.#send(res, 404, { error: `Unable to find server '${id}'.` })
+
+    if (!action && method === 'GET')
+      return this.#send(res, 200, await this.#describe(id, server, true))
+
+    if (method === 'POST' && !name) {
+      if (action === 'start') await server.start()
+      else if (action === 'stop') await server.stop()
+      else if (action === 'restart') await server.restart()
+      else if (action === 'execute') {
+        const { command } = await this.#body<{ command?: unknown }>(req)
+        if (typeof command !== 'string' || !command.trim())
+          return this.#send(res, 400, { error: "'command' must be a string." })
+        const response = await server.executeWithResponse(command)
+        return this.#send(res, 200, { response })
+      } else return this.#notFound(res)
+      return this.#send(res, 200, { state: server.state })
+    }
+
+    if (action === 'properties') {
+      const { properties } = server
+      if (method === 'GET' && name) {
+        const property = await properties.getProperty(name)
+        if (!property && !properties.getSchema(name))
+          return this.#send(res, 404, {
+            error: `Unable to find property '${name}'.`
+          })
+        return this.#send(res, 200, { name, value: await properties.get(name) })
+      }
+      if (method === 'GET') {
+        const values: Record<string, unknown> = {}
+        for (const { name, value } of await properties.getProperties())
+          values[name] = this.#parseProperty(server, name, value)
+        return this.#send(res, 200, values)
+      }
+      if (method === 'PUT' && !name) {
+        const body = await this.#body<Record<string, unknown>>(req)
+        //* Every value is validated before anything is written
+        const updates = Object.entries(body).map<IProperty>(([name, value]) => {
+          if (!['string', 'number', 'boolean'].includes(typeof value))
+            throw new PropertyError(name, value, `'${name}' must be a value`)
+          return {
+            name,
+            value: properties.serialize(
+              name,
+              value as string | number | boolean
+            )
+          }
+        })
+        await properties.setProperties(updates)
+        const values: Record<string, unknown> = {}
+        for (const { name, value } of updates)
+          values[name] = this.#parseProperty(server, name, value)
+        return this.#send(res, 200, values)
+      }
+    }
+
+    this.#notFound(res)
+  }
+
+  #upgrade(req: IncomingMessage, socket: Duplex) {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const reject = (status: string) => {
+      socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`)
+    }
+    if (url.pathname !== '/events') return reject('404 Not Found')
+    if (!this.#authorize(req, url.searchParams.get('token')))
+      return reject('401 Unauthorized')
+    const id = url.searchParams.get('server') || undefined
+    if (id && !this.getServer(id)) return reject('404 Not Found')
+    const ws = WebSocket.accept(req, socket)
+    if (!ws) return reject('400 Bad Request')
+    this.#sockets.set(ws, id)
+    ws.on('close', () => this.#sockets.delete(ws))
+  }
+
+  /**
+   * Forwards the server events to the WebSocket clients
+   * @returns A function that removes the listeners
+   */
+  #subscribe() {
+    const { target } = this
+    const broadcast = (id: string, event: string, data: unknown) => {
+      const message = JSON.stringify({ server: id, event, data })
+      for (const [socket, filter] of this.#sockets)
+        if (!filter || filter === id) socket.send(message)
+    }
+    const listeners = ApiServer.Events.map(event => {
+      const toData = (...args: any[]) =>
+        event === 'download'
+          ? { file: args[0], current: args[1], total: args[2] }
+          : args[0]
+      const listener =
+        target instanceof ServerManager
+          ? (id: string, ...args: any[]) =>
+              broadcast(id, event, toData(...args))
+          : (...args: any[]) => broadcast(DEFAULT_ID, event, toData(...args))
+      target.on(event, listener)
+      return () => target.off(event, listener)
+    })
+    return () => listeners.forEach(off => off())
+  }
+
+  #authorize(req: IncomingMessage, queryToken?: string | null) {
+    const header = req.headers.authorization
+    const token = header?.match(/^Bearer (.+)$/i)?.[1] || queryToken || ''
+    const expected = Buffer.from(this.options.token)
+    const actual = Buffer.from(token)
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    )
+  }
+
+  async #describe(id: string, server: Server, detailed = false) {
+    return {
+      id,
+      type: ServerManager.getType(server),
+      state: server.state,
+      version: server.version,
+      attached: server.attached,
+      players: server.players,
+      versionInfo: detailed
+        ? await server.getVersionInfo().catch(() => undefined)
+        : undefined
+    }
+  }
+
+  #parseProperty(server: Server, name: string, value: string) {
+    try {
+      return server.properties.parse(name, value)
+    } catch {
+      return value
+    }
+  }
+
+  #body<T>(req: IncomingMessage) {
+    return new Promise<T>((resolve, reject) => {
+      const chunks: Buffer[] = []
+      let size = 0
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > ApiServer.MaxBodySize) {
+          reject(new ApiError(413, 'The request body is too large.'))
+          req.destroy()
+        } else chunks.push(chunk)
+      })
+      req.on('error', reject)
+      req.on('end', () => {
+        try {
+          const body = JSON.parse(
+            Buffer.concat(chunks).toString('utf-8') || '{}'
+          )
+          if (!body || typeof body !== 'object' || Array.isArray(body))
+            throw new Error()
+          resolve(body as T)
+        } catch {
+          reject(new ApiError(400, 'The request body must be a JSON object.'))
+        }
+      })
+    })
+  }
+
+  #send(res: ServerResponse, status: number, body: unknown) {
+    if (res.headersSent) return
+    const content = JSON.stringify(body)
+    res.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(content)
+    })
+    res.end(content)
+  }
+
+  #notFound(res: ServerResponse) {
+    this.#send(res, 404, { error: 'Not Found' })
+  }
+
+  #error(res: ServerResponse, err: Error) {
+    const status =
+      err instanceof ApiError
+        ? err.status
+        : err instanceof PropertyError
+        ? 400
+        : err instanceof ServerStateError
+        ? 409
+        : 500
+    this.#send(res, status, { error: err.message })
+  }
+}
+
+export class ApiError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.status = status
+  }
+}
@@ -0,0 +1,359 @@
+import { execFile as execFileCallback } from 'child_process'
+import { createHash } from 'crypto'
+import { createReadStream, existsSync } from 'fs'
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  unlink,
+  writeFile
+} from 'fs/promises'
+import path from 'path'
+import { promisify } from 'util'
+import type { Server } from './servers/server'
+import { ServerStateError } from './shared'
+
+const execFile = promisify(execFileCallback)
+
+export interface IBackupFile {
+  sha1: string
+  size: number
+  /** The id of the backup whose archive holds the file */
+  backup: string
+}
+
+export interface IBackup {
+  id: string
+  /** When the backup was created as an ISO date */
+  created: string
+  /** Incremental backups only archive the files that changed since the previous backup */
+  type: 'full' | 'incremental'
+  version?: string
+  /** The folders that were backed up, relative to the server directory */
+  paths: string[]
+  /** Every file in the backup, including the files archived by previous backups */
+  files: Record<string, IBackupFile>
+  /** The archive of the files that changed, undefined if nothing changed */
+  archive?: string
+  /** The size of the archive in bytes */
+  size: number
+}
+
+export interface IBackupOptions {
+  incremental: boolean
+  /** Extra folders to back up, relative to the server directory */
+  include: string[]
+}
+
+/** How many backups to keep, the newest backup in each hour, day or week is kept */
+export interface IRetention {
+  last: number
+  hourly: number
+  daily: number
+  weekly: number
+}
+
+/**
+ * Backs up the worlds and plugin data of a server to compressed archives, each with a JSON manifest
+ */
+export default class Backups {
+  server: Server
+  /** The directory the backups are stored in, defaults to `backups` in the server directory */
+  path: string
+  /** Old backups are removed after each backup, every backup is kept if undefined */
+  retention?: Partial<IRetention>
+  #creating = false
+
+  static SavePattern = /Saved the (?:game|world)/i
+  /** How long to wait for the server to save in milliseconds */
+  static SaveTimeout = 60000
+  /** Plugin jars aren't backed up, only their data */
+  static ExcludePattern = /^plugins\/[^/]+\.jar$|(?:^|\/)session\.lock$/
+
+  constructor(server: Server, backupPath?: string) {
+    this.server = server
+    this.path = backupPath || path.join(server.path, 'backups')
+  }
+
+  /**
+   * Gets the folders to back up, the world and its dimensions, plugin data and any extra folders
+   * @param include Extra folders relative to the server directory
+   */
+  async getPaths(include: string[] = []) {
+    const level = (await this.server.properties.get('level-name')) || 'world'
+    const paths = [
+      level,
+      `${level}_nether`,
+      `${level}_the_end`,
+      'plugins',
+      ...include
+    ]
+    return paths.filter(
+      (folder, i) =>
+        paths.indexOf(folder) === i &&
+        existsSync(path.join(this.server.path, folder))
+    )
+  }
+
+  /**
+   * Creates a backup, saving is disabled while the files are archived if the server is running
+   * @throws {BackupError} If a backup is already being created or the server doesn't save in time
+   */
+  async create(options?: Partial<IBackupOptions>) {
+    const { incremental, include } = {
+      incremental: false,
+      include: [],
+      ...options
+    }
+    if (this.#creating)
+      throw new BackupError('A backup is already being created.')
+    this.#creating = true
+    const running = this.server.state === 'RUNNING'
+    let backup: IBackup
+    try {
+      await mkdir(this.path, { recursive: true })
+      if (running) await this.#disableSaving()
+      const paths = await this.getPaths(include)
+      const files = await this.#hashFiles(paths)
+      const previous = incremental ? (await this.list()).pop() : undefined
+      const created = new Date()
+      const id = created.toISOString().replace(/[:.]/g, '-')
+      backup = {
+        id,
+        created: created.toISOString(),
+        type: previous ? 'incremental' : 'full',
+        version: this.server.version,
+        paths,
+        files: {},
+        size: 0
+      }
+      const changed: string[] = []
+      for (const [file, { sha1, size }] of Object.entries(files)) {
+        const old = previous?.files[file]
+        if (old && old.sha1 === sha1) backup.files[file] = old
+        else {
+          backup.files[file] = { sha1, size, backup: id }
+          changed.push(file)
+        }
+      }
+      if (changed.length) {
+        this.server.log(`Archiving ${changed.length} files...`)
+        backup.archive = `${id}.tar.gz`
+        await this.#tar('-czf', backup.archive, changed)
+        backup.size = (await stat(path.join(this.path, backup.archive))).size
+      }
+      await writeFile(
+        path.join(this.path, `${id}.json`),
+        JSON.stringify(backup, null, 2),
+        'utf-8'
+      )
+    } finally {
+      if (running)
+        await this.server
+          .execute('save-on')
+          .catch(() => this.server.error('Failed to re-enable saving.'))
+      this.#creating = false
+    }
+    this.server.log(`Created backup ${backup.id}.`)
+    await this.prune()
+    return backup
+  }
+
+  /** Gets the backups from oldest to newest */
+  async list() {
+    if (!existsSync(this.path)) return []
+    const files = await readdir(this.path)
+    const backups = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(
+          async file =>
+            JSON.parse(
+              await readFile(path.join(this.path, file), 'utf-8')
+            ) as IBackup
+        )
+    )
+    return backups.sort((a, b) => a.created.localeCompare(b.created))
+  }
+
+  async get(id: string) {
+    const backups = await this.list()
+    return backups.find(backup => backup.id === id)
+  }
+
+  /**
+   * Restores the backed up folders to the state of a backup, files that were created after the backup are removed
+   * @throws {ServerStateError} If the server is running
+   * @throws {BackupError} If the backup or one of the archives it depends on is missing
+   */
+  async restore(id: string) {
+    if (!this.server.canStart) throw new ServerStateError(this.server.state)
+    const backup = await this.get(id)
+    if (!backup) throw new BackupError(`Unable to find backup '${id}'.`)
+    const archives = new Map<string, string[]>()
+    for (const [file, { backup: source }] of Object.entries(backup.files)) {
+      const files = archives.get(source) || []
+      files.push(file)
+      archives.set(source, files)
+    }
+    for (const source of archives.keys())
+      if (!existsSync(path.join(this.path, `${source}.tar.gz`)))
+        throw new BackupError(`The archive of backup '${source}' is missing.`)
+
+    this.server.log(`Restoring backup ${id}...`)
+    const current = await this.#listFiles(backup.paths)
+    await Promise.all(
+      current
+        .filter(file => !backup.files[file])
+        .map(file => unlink(path.join(this.server.path, file)))
+    )
+    for (const [source, files] of archives)
+      await this.#tar('-xzf', `${source}.tar.gz`, files)
+    this.server.log(`Restored backup ${id}.`)
+    return backup
+  }
+
+  /**
+   * Removes a backup, its archive is kept while newer backups depend on it
+   */
+  async remove(id: string) {
+    const manifest = path.join(this.path, `${id}.json`)
+    if (!existsSync(manifest)) return false
+    await unlink(manifest)
+    await this.#removeUnusedArchives()
+    return true
+  }
+
+  /**
+   * Removes the backups that aren't kept by the retention rules, the newest backup is always kept
+   * @returns The ids of the removed backups
+   */
+  async prune(retention = this.retention) {
+    if (!retention) return []
+    const { last = 0, hourly = 0, daily = 0, weekly = 0 } = retention
+    const backups = (await this.list()).reverse()
+    const keep = new Set(backups.slice(0, Math.max(last, 1)).map(b => b.id))
+    const keepNewest = (count: number, period: (date: Date) => string) => {
+      const periods = new Set<string>()
+      for (const backup of backups) {
+        const key = period(new Date(backup.created))
+        if (periods.has(key)) continue
+        if (periods.size >= count) break
+        periods.add(key)
+        keep.add(backup.id)
+      }
+    }
+    const day = (date: Date) =>
+      `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`
+    keepNewest(hourly, date => `${day(date)}-${date.getHours()}`)
+    keepNewest(daily, day)
+    keepNewest(weekly, date => {
+      const start = new Date(date)
+      start.setDate(date.getDate() - date.getDay())
+      return day(start)
+    })
+
+    const removed = backups
+      .filter(backup => !keep.has(backup.id))
+      .map(backup => backup.id)
+    await Promise.all(
+      removed.map(id => unlink(path.join(this.path, `${id}.json`)))
+    )
+    await this.#removeUnusedArchives()
+    return removed
+  }
+
+  async #disableSaving() {
+    await this.server.execute('save-off')
+    const response = await this.server.executeWithResponse('save-all flush', {
+      window: Backups.SaveTimeout,
+      until: Backups.SavePattern
+    })
+    if (!Backups.SavePattern.test(response))
+      throw new BackupError('The server did not finish saving in time.')
+  }
+
+  async #removeUnusedArchives() {
+    const used = new Set<string>()
+    for (const backup of await this.list())
+      for (const file of Object.values(backup.files)) used.add(file.backup)
+    const files = await readdir(this.path)
+    await Promise.all(
+      files
+        .filter(
+          file =>
+            file.endsWith('.tar.gz') &&
+            !used.has(file.slice(0, -'.tar.gz'.length))
+        )
+        .map(file => unlink(path.join(this.path, file)))
+    )
+  }
+
+  /** Lists the files in folders relative to the server directory, using forward slashes */
+  async #listFiles(folders: string[]) {
+    const files: string[] = []
+    const walk = async (folder: string) => {
+      const entries = await readdir(path.join(this.server.path, folder), {
+        withFileTypes: true
+      })
+      for (const entry of entries) {
+        const file = `${folder}/${entry.name}`
+        if (entry.isDirectory()) await walk(file)
+        else if (entry.isFile() && !Backups.ExcludePattern.test(file))
+          files.push(file)
+      }
+    }
+    for (const folder of folders)
+      if (existsSync(path.join(this.server.path, folder))) await walk(folder)
+    return files
+  }
+
+  async #hashFiles(folders: string[]) {
+    const hashes: Record<string, { sha1: string; size: number }> = {}
+    for (const file of await this.#listFiles(folders)) {
+      const hash = createHash('sha1')
+      let size = 0
+      await new Promise<void>((resolve, reject) =>
+        createReadStream(path.join(this.server.path, file))
+          .on('data', chunk => {
+            hash.update(chunk)
+            size += chunk.length
+          })
+          .on('error', reject)
+          .on('end', () => resolve())
+      )
+      hashes[file] = { sha1: hash.digest('hex'), size }
+    }
+    return hashes
+  }
+
+  /**
+   * Creates or extracts an archive with a list of files
+   * @param flags `-czf` to create the archive or `-xzf` to extract it
+   */
+  async #tar(flags: string, archive: string, files: string[]) {
+    //* Paths after `-C` are relative to the server directory
+    const list = path.resolve(this.path, `${archive}.txt`)
+    await writeFile(list, files.join('\n'), 'utf-8')
+    try {
+      await execFile(
+        'tar',
+        [
+          flags,
+          path.resolve(this.path, archive),
+          '-C',
+          this.server.path,
+          '-T',
+          list
+        ],
+        { windowsHide: true }
+      )
+    } finally {
+      await rm(list, { force: true })
+    }
+  }
+}
+
+export class BackupError extends Error {}
@@ -0,0 +1,567 @@
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { createInterface } from 'readline/promises'
+import { parseArgs } from 'util'
+import Server from './servers/server'
+import ServerManager, { IServerEntry, ServerType } from './serverManager'
+import Versions from './versions'
+
+/** The server settings stored in `mcserver.json`, the server directory is where the file is */
+export interface IServerConfig {
+  type: ServerType
+  version?: string
+  /** The fabric loader or forge version */
+  loader?: string
+  options: Omit<IServerEntry['options'], 'path'>
+}
+
+interface ICommand {
+  usage: string
+  description: string
+  options: (keyof typeof CliOptions)[]
+  run: (args: ICommandArgs) => Promise<unknown>
+}
+
+interface ICommandArgs {
+  values: CliValues
+  positionals: string[]
+  /** The server directory */
+  dir: string
+}
+
+type CliValues = ReturnType<typeof parseCliArgs>['values']
+
+export const ConfigFile = 'mcserver.json'
+
+export const ServerTypes: ServerType[] = [
+  'vanilla',
+  'spigot',
+  'fabric',
+  'forge'
+]
+
+const CliOptions = {
+  'type': {
+    type: 'string',
+    short: 't',
+    description: `The server type, ${ServerTypes.join(', ')}`
+  },
+  'version': {
+    type: 'string',
+    short: 'v',
+    description: 'The minecraft version, defaults to the latest release'
+  },
+  'loader': {
+    type: 'string',
+    description: 'The fabric loader or forge version'
+  },
+  'path': {
+    type: 'string',
+    short: 'p',
+    description: 'The server directory, defaults to the current directory'
+  },
+  'min-memory': { type: 'string', description: 'In megabytes' },
+  'max-memory': { type: 'string', description: 'In megabytes' },
+  'soft-max-memory': { type: 'string', description: 'In megabytes' },
+  'java': {
+    type: 'string',
+    description: 'The directory of the java executable'
+  },
+  'auto-java': {
+    type: 'boolean',
+    description: 'Download a java runtime matching the server version'
+  },
+  'rcon': { type: 'boolean', description: 'Enable rcon, needed by `stop`' },
+  'incremental': {
+    type: 'boolean',
+    description: 'Only archive the files that changed since the last backup'
+  },
+  'offline': {
+    type: 'boolean',
+    description: 'Only use the cached version manifests'
+  },
+  'cache-dir': {
+    type: 'string',
+    description: 'The directory the version manifests are cached in'
+  },
+  'json': { type: 'boolean', description: 'Output JSON for scripts' },
+  'help': { type: 'boolean', short: 'h', description: 'Show the help' }
+} as const
+
+/** The options every command supports */
+const GlobalOptions: ICommand['options'] = [
+  'path',
+  'offline',
+  'cache-dir',
+  'json'
+]
+
+const ServerOptions: ICommand['options'] = [
+  'type',
+  'version',
+  'loader',
+  'min-memory',
+  'max-memory',
+  'soft-max-memory',
+  'java',
+  'auto-java',
+  'rcon'
+]
+
+const Commands: Record<string, ICommand> = {
+  init: {
+    usage: 'init [path]',
+    description: `Creates or updates ${ConfigFile} in the server directory`,
+    options: ServerOptions,
+    run: async ({ values, dir }) => {
+      const config = await resolveConfig(dir, values)
+      await saveConfig(dir, config)
+      return output(values, config, () =>
+        console.log(`Saved ${path.join(dir, ConfigFile)}`)
+      )
+    }
+  },
+  start: {
+    usage: 'start [path]',
+    description: `Starts the server with a console, the options are saved to ${ConfigFile}`,
+    options: ServerOptions,
+    run: async ({ values, dir }) => {
+      const config = await resolveConfig(dir, values)
+      return runConsole(createServer(dir, config), config, values.json)
+    }
+  },
+  stop: {
+    usage: 'stop [path]',
+    description: 'Stops a server that was started elsewhere through rcon',
+    options: [],
+    run: async ({ values, dir }) => {
+      const server = createServer(dir, await resolveConfig(dir, {}))
+      if (!(await server.properties.get('enable-rcon')))
+        throw new CliError('Rcon must be enabled to stop the server.')
+      await server.attach().catch(err => {
+        server.rcon?.close()
+        throw new CliError(`Unable to connect to rcon. ${err.message}`)
+      })
+      await server.stop()
+      return output(values, { stopped: true }, () =>
+        console.log('Stopped the server.')
+      )
+    }
+  },
+  versions: {
+    usage: 'versions',
+    description: 'Lists the versions of a server type',
+    options: ['type'],
+    run: async ({ values, dir }) => {
+      const { type } = await resolveConfig(dir, values)
+      const columns = await getVersions(type)
+      return output(values, columns, () => printColumns(columns))
+    }
+  },
+  props: {
+    usage: 'props [get <name> | set <name> <value>]',
+    description: 'Lists, gets or sets properties in server.properties',
+    options: [],
+    run: async ({ values, positionals, dir }) => {
+      const { properties } = createServer(dir, await resolveConfig(dir, {}))
+      const [action, name, ...value] = positionals
+      if (!action) {
+        const props = await properties.getProperties()
+        return output(
+          values,
+          Object.fromEntries(props.map(prop => [prop.name, prop.value])),
+          () => props.forEach(prop => console.log(`${prop.name}=${prop.value}`))
+        )
+      }
+      if (!name || (action !== 'get' && action !== 'set'))
+        throw new CliError(`Usage: mcserver.js ${Commands.props.usage}`)
+      if (action === 'set') {
+        if (!value.length)
+          throw new CliError(`Usage: mcserver.js ${Commands.props.usage}`)
+        await properties.set(name, value.join(' '))
+      }
+      const prop = await properties.getProperty(name)
+      if (!prop)
+        throw new CliError(`Couldn't find a property by the name '${name}'.`)
+      return output(values, prop, () => console.log(prop.value))
+    }
+  },
+  eula: {
+    usage: 'eula [accept | decline]',
+    description:
+      'Shows whether the EULA was accepted, or accepts or declines it',
+    options: [],
+    run: async ({ values, positionals, dir }) => {
+      const server = createServer(dir, await resolveConfig(dir, {}))
+      const [action] = positionals
+      if (action === 'accept' || action === 'decline')
+        await server.acceptEula(action === 'accept')
+      else if (action)
+        throw new CliError(`Usage: mcserver.js ${Commands.eula.usage}`)
+      const accepted =
+        existsSync(server.eula) &&
+        /eula=true/i.test(await readFile(server.eula, 'utf-8'))
+      return output(values, { accepted }, () =>
+        console.log(`The EULA is ${accepted ? 'accepted' : 'not accepted'}.`)
+      )
+    }
+  },
+  backup: {
+    usage: 'backup [path]',
+    description:
+      'Backs up the worlds and plugin data, saving is disabled through rcon if the server is running',
+    options: ['incremental'],
+    run: async ({ values, dir }) => {
+      const server = createServer(dir, await resolveConfig(dir, {}))
+      //* The server can only be told to stop saving through rcon
+      if (await server.properties.get('enable-rcon'))
+        await server.attach().catch(() => server.rcon?.close())
+      try {
+        const backup = await server.backups.create({
+          incremental: values.incremental
+        })
+        return output(values, backup, () =>
+          console.log(
+            `Created ${backup.type} backup ${backup.id} (${(
+              backup.size / 1048576
+            ).toFixed(2)}mb)`
+          )
+        )
+      } finally {
+        await server.detach()
+      }
+    }
+  },
+  status: {
+    usage: 'status [path]',
+    description: 'Shows the server settings and pings the server',
+    options: [],
+    run: async ({ values, dir }) => {
+      const config = await resolveConfig(dir, {})
+      const server = createServer(dir, config)
+      const response = await server.ping().catch(() => undefined)
+      const status = {
+        path: path.resolve(dir),
+        ...config,
+        online: !!response,
+        players: response?.players,
+        motd: response?.motd,
+        latency: response?.latency
+      }
+      return output(values, status, () => {
+        console.log(`Path: ${status.path}`)
+        console.log(`Type: ${status.type}`)
+        console.log(`Version: ${status.version || 'latest'}`)
+        if (!response) return console.log('Status: offline')
+        console.log(`Status: online (${response.latency}ms)`)
+        console.log(`MOTD: ${response.motd}`)
+        console.log(
+          `Players: ${response.players.online}/${response.players.max}`
+        )
+      })
+    }
+  }
+}
+
+/**
+ * Runs the command line interface
+ * @param argv The arguments without the node and script paths
+ * @returns The exit code
+ */
+export async function cli(argv: string[]) {
+  let json = argv.includes('--json')
+  try {
+    const { values, positionals } = parseCliArgs(argv)
+    json = !!values.json
+    const [name, ...args] = positionals
+    const command = name ? Commands[name] : undefined
+    if (name && !command) throw new CliError(`Unknown command '${name}'.`)
+    if (!command || values.help) {
+      printHelp(command)
+      return 0
+    }
+    const allowed = [...GlobalOptions, 'help', ...command.options]
+    const unsupported = Object.keys(values).find(key => !allowed.includes(key))
+    if (unsupported)
+      throw new CliError(`'${name}' doesn't support --${unsupported}.`)
+    //* Commands that don't take other arguments take the server directory
+    const takesPath = command.usage.endsWith('[path]')
+    const dir = values.path || (takesPath && args[0]) || '.'
+    if (values.offline) Versions.configure({ offline: true })
+    if (values['cache-dir'])
+      Versions.configure({ cachePath: path.resolve(values['cache-dir']) })
+    await command.run({ values, positionals: args, dir })
+    return 0
+  } catch (err: any) {
+    if (json) console.log(JSON.stringify({ error: err.message }, null, 2))
+    else console.error(err.message)
+    return 1
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      options: CliOptions,
+      allowPositionals: true
+    })
+  } catch (err: any) {
+    throw new CliError(err.message)
+  }
+}
+
+/**
+ * Loads `mcserver.json` from the server directory
+ * @returns The config, or undefined if the file doesn't exist
+ */
+export async function loadConfig(dir: string) {
+  const file = path.join(dir, ConfigFile)
+  if (!existsSync(file)) return
+  return JSON.parse(await readFile(file, 'utf-8')) as IServerConfig
+}
+
+export async function saveConfig(dir: string, config: IServerConfig) {
+  await mkdir(dir, { recursive: true })
+  await writeFile(
+    path.join(dir, ConfigFile),
+    JSON.stringify(config, null, 2),
+    'utf-8'
+  )
+}
+
+/**
+ * Loads the config of the server directory and applies the options given on the command line
+ * @throws {CliError} If an option is invalid
+ */
+async function resolveConfig(
+  dir: string,
+  values: Partial<CliValues>
+): Promise<IServerConfig> {
+  const config: IServerConfig = (await loadConfig(dir)) || {
+    type: 'vanilla',
+    options: {}
+  }
+  if (values.type) {
+    if (!ServerTypes.includes(values.type as ServerType))
+      throw new CliError(
+        `--type must be one of ${ServerTypes.join(', ')}, got '${values.type}'.`
+      )
+    config.type = values.type as ServerType
+  }
+  if (values.version) config.version = values.version
+  if (values.loader) config.loader = values.loader
+  const { options } = config
+  const memory = (name: keyof typeof CliOptions, value: string) => {
+    const megabytes = Number(value)
+    if (!Number.isInteger(megabytes) || megabytes <= 0)
+      throw new CliError(`--${name} must be a whole number, got '${value}'.`)
+    return megabytes
+  }
+  if (values['min-memory'])
+    options.minMemory = memory('min-memory', values['min-memory'])
+  if (values['max-memory'])
+    options.maxMemory = memory('max-memory', values['max-memory'])
+  if (values['soft-max-memory'])
+    options.softMaxMemory = memory('soft-max-memory', values['soft-max-memory'])
+  if (values.java) options.javaPath = values.java
+  if (values['auto-java']) options.autoJava = true
+  if (values.rcon) options.enableRcon = true
+  return config
+}
+
+function createServer(dir: string, config: IServerConfig) {
+  return ServerManager.createServer({
+    ...config,
+    options: { ...config.options, path: dir }
+  })
+}
+
+/** Prints JSON if `--json` was given, otherwise calls `print` */
+function output(values: Partial<CliValues>, data: unknown, print: () => void) {
+  if (values.json) console.log(JSON.stringify(data, null, 2))
+  else print()
+}
+
+async function getVersions(
+  type: ServerType
+): Promise<Record<string, string[]>> {
+  switch (type) {
+    case 'spigot':
+      return { Versions: (await Versions.spigotManifest).versions }
+    case 'fabric': {
+      const { versions } = await Versions.fabricManifest
+      return {
+        Versions: versions.game.filter(v => v.stable).map(v => v.version),
+        Loaders: versions.loader.filter(v => v.stable).map(v => v.version)
+      }
+    }
+    case 'forge':
+      return { Versions: Object.keys((await Versions.forgeManifest).versions) }
+    default: {
+      const { versions } = await Versions.servers
+      return {
+        Releases: versions.filter(v => v.type === 'release').map(v => v.id),
+        Snapshots: versions.filter(v => v.type === 'snapshot').map(v => v.id)
+      }
+    }
+  }
+}
+
+/** Prints lists side by side with a header above each list */
+function printColumns(columns: Record<string, string[]>) {
+  const headers = Object.keys(columns)
+  const lists = headers.map(header => columns[header])
+  const widths = headers.map((header, i) =>
+    lists[i].reduce((prev, item) => Math.max(item.length, prev), header.length)
+  )
+  const row = (cells: string[]) =>
+    `| ${cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ')} |`
+  console.log(row(headers))
+  console.log(row(widths.map(width => ''.padEnd(width, '-'))))
+  const length = Math.max(...lists.map(list => list.length))
+  for (let i = 0; i < length; i++)
+    console.log(row(lists.map(list => list[i] || '')))
+}
+
+function printHelp(command?: ICommand) {
+  const lines: string[] = []
+  const options = command
+    ? [...command.options, ...GlobalOptions]
+    : (Object.keys(CliOptions) as (keyof typeof CliOptions)[])
+  if (command) {
+    lines.push(`Usage: mcserver.js ${command.usage} [options]`, '')
+    lines.push(command.description, '')
+  } else {
+    lines.push('Usage: mcserver.js <command> [options]', '', 'Commands:')
+    const width = Math.max(
+      ...Object.values(Commands).map(({ usage }) => usage.length)
+    )
+    for (const { usage, description } of Object.values(Commands))
+      lines.push(`  ${usage.padEnd(width)}  ${description}`)
+    lines.push('')
+  }
+  lines.push('Options:')
+  const flags = options.map(name => {
+    const option = CliOptions[name]
+    const short = 'short' in option ? `-${option.short}, ` : ''
+    const value = option.type === 'string' ? ' <value>' : ''
+    return [`${short}--${name}${value}`, option.description]
+  })
+  const width = Math.max(...flags.map(([flag]) => flag.length))
+  for (const [flag, description] of flags)
+    lines.push(`  ${flag.padEnd(width)}  ${description}`)
+  console.log(lines.join('\n'))
+}
+
+/**
+ * Starts the server and forwards the console input to it until the server stops
+ * @returns Once the console is closed
+ */
+async function runConsole(
+  server: Server,
+  config: IServerConfig,
+  json?: boolean
+) {
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  let eula = false
+  let restore: string | undefined
+
+  server.on('download', (file, current, total) => {
+    const percent = ((current / total) * 100).toFixed(2)
+    const currentMB = (current / 1048576).toFixed(2)
+    const totalMB = (total / 1048576).toFixed(2)
+    server.log(`Downloading file: ${percent}% (${currentMB}mb / ${totalMB}mb)`)
+  })
+
+  server.on('message', message =>
+    console.log(json ? JSON.stringify(message) : message.content)
+  )
+
+  server.on('stateUpdate', state => {
+    if (state === 'CRASHED') console.log('Press Enter to Continue...')
+    else if (state === 'STOPPED') {
+      if (restore) {
+        const id = restore
+        restore = undefined
+        return server
+          .restore(id)
+          .catch(() => {})
+          .then(() => server.start())
+          .catch(() => {})
+      }
+      if (eula) return console.log('Do you accept the EULA? (Y/[N])')
+      setTimeout(() => rl.close(), 1000)
+    }
+  })
+
+  server.on('eula', () => (eula = true))
+
+  const promptCommand = () => {
+    rl.question('')
+      .then<unknown>(input => {
+        if (!eula) {
+          if (!server.canStop) return rl.close()
+          const args = input.split(' ')
+          const cmd = args.shift()?.toLowerCase()
+          if (cmd === 'setprop') {
+            server.log(`Setting property ${args[0]} to ${args[1]}`)
+            return server.properties
+              .set(args[0], args.slice(1).join(' '))
+              .then(() => server.execute('reload'))
+              .catch(err => server.error(err.message))
+          } else if (cmd === 'backup') {
+            return server.backup({ incremental: args[0] === 'incremental' })
+          } else if (cmd === 'backups') {
+            return server
+              .listBackups()
+              .then(backups =>
+                backups.forEach(backup =>
+                  server.log(
+                    `${backup.id} (${backup.type}, ${(
+                      backup.size / 1048576
+                    ).toFixed(2)}mb)`
+                  )
+                )
+              )
+          } else if (cmd === 'restore') {
+            if (!args[0]) return server.warn('Usage: restore <id>')
+            //* The backup is restored once the server has stopped
+            restore = args[0]
+            return server.stop()
+          } else if (cmd === 'getprop') {
+            return server.properties.getProperty(args[0]).then(prop => {
+              if (!prop)
+                server.warn(`Couldn't find a property by the name '${args[0]}'`)
+              else server.log(`${prop.name} is ${prop.value}`)
+              return
+            })
+          }
+          return server.execute(input)
+        }
+        eula = false
+        return server
+          .acceptEula(input.toLowerCase() === 'y')
+          .then(accept => (accept ? server.start() : rl.close()))
+      })
+      .catch(() => {})
+      .finally(promptCommand)
+  }
+
+  const closed = new Promise<number>(resolve =>
+    rl.on('close', () => resolve(0))
+  )
+
+  try {
+    await server.start()
+    //* The version is pinned once the latest version has been resolved
+    await saveConfig(server.path, { ...config, version: server.version })
+    promptCommand()
+  } catch {
+    rl.close()
+  }
+  return closed
+}
+
+export class CliError extends Error {}
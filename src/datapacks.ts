@@ -0,0 +1,301 @@
+import { randomBytes } from 'crypto'
+import { existsSync } from 'fs'
+import {
+  copyFile,
+  cp,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat
+} from 'fs/promises'
+import path from 'path'
+import { flattenText, stripFormatting } from './ping'
+import { download } from './request'
+import type { Server } from './servers/server'
+import { readZipEntry, ZipSource } from './zip'
+
+export interface IDatapack {
+  /** The folder or zip name */
+  name: string
+  /** The id the game uses in `/datapack`, e.g. `file/mypack.zip` */
+  id: string
+  description: string
+  packFormat: number
+  /** The lowest and highest pack formats the pack supports */
+  supportedFormats?: [number, number]
+  type: 'folder' | 'zip'
+  path: string
+  /** Disabled packs are in the disabled folder while the server is stopped */
+  enabled: boolean
+  /** Whether the pack supports the server's pack format, undefined if the server's format is unknown */
+  compatible?: boolean
+}
+
+/**
+ * Manages the datapacks of the world, packs are read from their `pack.mcmeta`
+ *
+ * While the server is running packs are enabled and disabled with `/datapack`, otherwise disabled packs are moved to the disabled folder.
+ */
+export default class Datapacks {
+  server: Server
+
+  /** The folder disabled packs are moved to, inside the world folder */
+  static DisabledFolder = 'datapacks_disabled'
+
+  constructor(server: Server) {
+    this.server = server
+    //* Incompatible packs don't load, so they're pointed out once the server is running
+    server.on('stateUpdate', state => {
+      if (state === 'RUNNING' && !server.attached) this.check().catch(() => {})
+    })
+  }
+
+  async getWorldPath() {
+    const level = (await this.server.properties.get('level-name')) || 'world'
+    return path.join(this.server.path, level)
+  }
+
+  async getPath() {
+    return path.join(await this.getWorldPath(), 'datapacks')
+  }
+
+  async getDisabledPath() {
+    return path.join(await this.getWorldPath(), Datapacks.DisabledFolder)
+  }
+
+  /** Gets the pack format of the server, e.g. 15 for 1.20.1 */
+  async getPackFormat() {
+    const info = await this.server.getVersionInfo()
+    return info?.pack_version?.data
+  }
+
+  /**
+   * Gets the installed datapacks, folders and zips without a valid `pack.mcmeta` are skipped
+   * @param disabled Whether to include the packs in the disabled folder
+   */
+  async list(disabled = false) {
+    const format = await this.getPackFormat()
+    const packs = await this.#scan(await this.getPath(), format)
+    if (disabled)
+      packs.push(
+        ...(await this.#scan(await this.getDisabledPath(), format, false))
+      )
+    return packs
+  }
+
+  /**
+   * Gets a datapack by its name or id
+   */
+  async get(name: string) {
+    const packs = await this.list(true)
+    return packs.find(pack => pack.name === name || pack.id === name)
+  }
+
+  /**
+   * Installs a datapack from a folder, zip or url, a pack with the same name is replaced
+   * @param source The path of the folder or zip, or the url of the zip
+   * @throws {DatapackError} If the server doesn't support datapacks or the pack doesn't have a valid `pack.mcmeta`
+   */
+  async install(source: string) {
+    if (!(await this.server.hasDatapackSupport()))
+      throw new DatapackError("The server version doesn't support datapacks.")
+    const folder = await this.getPath()
+    await mkdir(folder, { recursive: true })
+    const isUrl = /^https?:\/\//i.test(source)
+    const isFolder = !isUrl && (await stat(source)).isDirectory()
+    let name = isUrl
+      ? decodeURIComponent(path.basename(new URL(source).pathname))
+      : path.basename(path.resolve(source))
+    if (!isFolder && !name.endsWith('.zip')) name += '.zip'
+    const temp = path.join(folder, `.${randomBytes(8).toString('hex')}`)
+    try {
+      if (isUrl) await download(source, temp)
+      else if (isFolder) await cp(source, temp, { recursive: true })
+      else await copyFile(source, temp)
+      await Datapacks.readMeta(temp)
+      const existing = await this.get(name)
+      if (existing) await rm(existing.path, { recursive: true, force: true })
+      await rename(temp, path.join(folder, name))
+    } finally {
+      await rm(temp, { recursive: true, force: true })
+    }
+    const pack = (await this.get(name)) as IDatapack
+    this.server.log(`Installed datapack ${pack.name}.`)
+    await this.#warnIncompatible(pack)
+    if (this.#running) await this.#reload()
+    return pack
+  }
+
+  /**
+   * Deletes a datapack, packs are disabled first while the server is running
+   * @returns Whether the pack was installed
+   */
+  async remove(name: string) {
+    const pack = await this.get(name)
+    if (!pack) return false
+    if (this.#running && pack.enabled)
+      await this.server.execute(`datapack disable "${pack.id}"`)
+    await rm(pack.path, { recursive: true, force: true })
+    if (this.#running) await this.#reload()
+    return true
+  }
+
+  /**
+   * Enables a datapack with `/datapack` while the server is running, or moves it out of the disabled folder
+   * @throws {DatapackError} If the pack isn't installed
+   */
+  async enable(name: string) {
+    let pack = await this.#require(name)
+    if (!pack.enabled) {
+      const target = path.join(await this.getPath(), pack.name)
+      await mkdir(path.dirname(target), { recursive: true })
+      await rename(pack.path, target)
+      pack = { ...pack, path: target, enabled: true }
+    }
+    await this.#warnIncompatible(pack)
+    if (this.#running) {
+      await this.server.execute(`datapack enable "${pack.id}"`)
+      await this.#reload()
+    }
+    return pack
+  }
+
+  /**
+   * Disables a datapack with `/datapack` while the server is running, or moves it to the disabled folder
+   * @throws {DatapackError} If the pack isn't installed
+   */
+  async disable(name: string) {
+    const pack = await this.#require(name)
+    if (this.#running) {
+      await this.server.execute(`datapack disable "${pack.id}"`)
+      await this.#reload()
+      return pack
+    }
+    if (!pack.enabled) return pack
+    const target = path.join(await this.getDisabledPath(), pack.name)
+    await mkdir(path.dirname(target), { recursive: true })
+    await rename(pack.path, target)
+    return { ...pack, path: target, enabled: false }
+  }
+
+  /**
+   * Warns about the enabled packs that don't support the server's pack format
+   * @returns The incompatible packs
+   */
+  async check() {
+    const incompatible = (await this.list()).filter(
+      pack => pack.compatible === false
+    )
+    for (const pack of incompatible) await this.#warnIncompatible(pack)
+    return incompatible
+  }
+
+  get #running() {
+    return this.server.state === 'RUNNING'
+  }
+
+  async #reload() {
+    await this.server.execute('reload')
+  }
+
+  async #require(name: string) {
+    const pack = await this.get(name)
+    if (!pack) throw new DatapackError(`Unable to find datapack '${name}'.`)
+    return pack
+  }
+
+  async #warnIncompatible(pack: IDatapack) {
+    if (pack.compatible !== false) return
+    const formats = pack.supportedFormats
+      ? `${pack.supportedFormats[0]}-${pack.supportedFormats[1]}`
+      : pack.packFormat
+    this.server.warn(
+      `The datapack ${
+        pack.name
+      } supports pack format ${formats} but the server uses ${await this.getPackFormat()}, the game might not load it.`
+    )
+  }
+
+  async #scan(folder: string, format?: number, enabled = true) {
+    const packs: IDatapack[] = []
+    if (!existsSync(folder)) return packs
+    const entries = await readdir(folder, { withFileTypes: true })
+    for (const entry of entries) {
+      const isZip = entry.isFile() && entry.name.endsWith('.zip')
+      //* Hidden entries are packs that are still being installed
+      if ((!entry.isDirectory() && !isZip) || entry.name.startsWith('.'))
+        continue
+      const packPath = path.join(folder, entry.name)
+      const meta = await Datapacks.readMeta(packPath).catch(() => undefined)
+      if (!meta) continue
+      const [min, max] = meta.supportedFormats || [
+        meta.packFormat,
+        meta.packFormat
+      ]
+      packs.push({
+        ...meta,
+        name: entry.name,
+        id: `file/${entry.name}`,
+        type: isZip ? 'zip' : 'folder',
+        path: packPath,
+        enabled,
+        compatible:
+          format === undefined ? undefined : format >= min && format <= max
+      })
+    }
+    return packs.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Reads the `pack.mcmeta` of a pack folder or zip, resource packs use the same format
+   * @param pack The path of the folder or zip, or the zip in memory
+   * @throws {DatapackError} If the pack doesn't have a valid `pack.mcmeta`
+   */
+  static async readMeta(pack: ZipSource) {
+    let content: Buffer | undefined
+    try {
+      content = Buffer.isBuffer(pack)
+        ? await readZipEntry(pack, 'pack.mcmeta')
+        : (await stat(pack)).isDirectory()
+        ? existsSync(path.join(pack, 'pack.mcmeta'))
+          ? await readFile(path.join(pack, 'pack.mcmeta'))
+          : undefined
+        : await readZipEntry(pack, 'pack.mcmeta')
+    } catch (err: any) {
+      throw new DatapackError(err.message)
+    }
+    if (!content)
+      throw new DatapackError("The pack doesn't have a pack.mcmeta.")
+    let meta: any
+    try {
+      meta = JSON.parse(content.toString('utf-8').replace(/^\uFEFF/, '')).pack
+    } catch (err: any) {
+      throw new DatapackError(`The pack.mcmeta is invalid. ${err.message}`)
+    }
+    if (typeof meta?.pack_format !== 'number')
+      throw new DatapackError("The pack.mcmeta doesn't have a pack_format.")
+    return {
+      description: stripFormatting(flattenText(meta.description ?? '')),
+      packFormat: meta.pack_format as number,
+      supportedFormats: parseSupportedFormats(meta.supported_formats)
+    }
+  }
+}
+
+/**
+ * Parses `supported_formats`, which is a number, a `[min, max]` list or a `min_inclusive` and `max_inclusive` object
+ */
+function parseSupportedFormats(value: any): [number, number] | undefined {
+  if (typeof value === 'number') return [value, value]
+  if (Array.isArray(value) && value.length === 2) return [value[0], value[1]]
+  if (
+    value &&
+    typeof value.min_inclusive === 'number' &&
+    typeof value.max_inclusive === 'number'
+  )
+    return [value.min_inclusive, value.max_inclusive]
+}
+
+export class DatapackError extends Error {}
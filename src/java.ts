@@ -0,0 +1,272 @@
+import {
+  exec as execCallback,
+  execFile as execFileCallback
+} from 'child_process'
+import { existsSync } from 'fs'
+import { mkdir, readdir, rename, rm } from 'fs/promises'
+import { homedir } from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import { download, request } from './request'
+
+const exec = promisify(execCallback)
+const execFile = promisify(execFileCallback)
+
+export interface IJavaPlatform {
+  os: string
+  arch: string
+}
+
+export interface IJavaPackage {
+  url: string
+  name: string
+  /** The SHA-256 hash of the archive */
+  checksum?: string
+}
+
+/** Resolves the package to download for a java major version */
+export type JavaSource = (
+  majorVersion: number,
+  platform: IJavaPlatform
+) => Promise<IJavaPackage>
+
+export interface IJavaRuntime {
+  /** The full version string, e.g. `17.0.8` or `1.8.0_381` */
+  version: string
+  majorVersion: number
+  vendor: string
+  bits: 32 | 64
+  arch?: string
+  home?: string
+}
+
+export interface IAdoptiumAsset {
+  binary: {
+    package: {
+      checksum: string
+      link: string
+      name: string
+      size: number
+    }
+  }
+  release_name: string
+}
+
+export default class JavaRuntimes {
+  static #installs = new Map<string, Promise<string>>()
+
+  /** The shared directory java runtimes are unpacked into */
+  static cachePath = path.join(homedir(), '.mcserverjs', 'java')
+
+  /** Major versions that aren't published as a JRE and the version to use instead */
+  static Substitutes: Record<number, number> = { 16: 17 }
+
+  static Platforms: Record<string, string> = {
+    win32: 'windows',
+    darwin: 'mac',
+    linux: 'linux',
+    aix: 'aix',
+    sunos: 'solaris'
+  }
+
+  static Architectures: Record<string, string> = {
+    x64: 'x64',
+    ia32: 'x86',
+    arm64: 'aarch64',
+    arm: 'arm',
+    ppc64: 'ppc64',
+    s390x: 's390x'
+  }
+
+  /**
+   * Creates a source backed by the Adoptium (Eclipse Temurin) API or a mirror of it
+   * @param baseUrl The base url of the api
+   */
+  static adoptium(baseUrl = 'https://api.adoptium.net'): JavaSource {
+    return async (majorVersion, { os, arch }) => {
+      const assets = await request<IAdoptiumAsset[]>(
+        `${baseUrl}/v3/assets/latest/${majorVersion}/hotspot?architecture=${arch}&image_type=jre&os=${os}&vendor=eclipse`
+      )
+      const asset = assets[0]
+      if (!asset)
+        throw new Error(
+          `No java ${majorVersion} runtime is available for ${os}-${arch}.`
+        )
+      const { link, name, checksum } = asset.binary.package
+      return { url: link, name, checksum }
+    }
+  }
+
+  /**
+   * Creates a source that downloads archives from a url template, e.g. a local mirror
+   * @param template The archive url, `{version}`, `{os}`, `{arch}` and `{ext}` are substituted
+   */
+  static mirror(template: string): JavaSource {
+    return async (majorVersion, { os, arch }) => {
+      const ext = os === 'windows' ? 'zip' : 'tar.gz'
+      const url = template
+        .replace(/\{version\}/g, String(majorVersion))
+        .replace(/\{os\}/g, os)
+        .replace(/\{arch\}/g, arch)
+        .replace(/\{ext\}/g, ext)
+      return { url, name: `jre-${majorVersion}-${os}-${arch}.${ext}` }
+    }
+  }
+
+  /** Where java runtime archives are downloaded from */
+  static source: JavaSource = JavaRuntimes.adoptium()
+
+  static get platform(): IJavaPlatform {
+    return {
+      os: this.Platforms[process.platform] || process.platform,
+      arch: this.Architectures[process.arch] || process.arch
+    }
+  }
+
+  /**
+   * Runs `java -version` and parses the runtime details
+   * @param env The environment to resolve `java` from, see `Server.env`
+   */
+  static async inspect(env: NodeJS.ProcessEnv = process.env) {
+    let output: string
+    try {
+      const { stdout, stderr } = await execFile(
+        'java',
+        ['-XshowSettings:properties', '-version'],
+        { env, windowsHide: true }
+      )
+      output = `${stderr}${stdout}`
+    } catch (err: any) {
+      throw new Error(`Unable to run java. ${err.message}`)
+    }
+    return this.parseVersion(output)
+  }
+
+  /**
+   * Parses the output of `java -XshowSettings:properties -version`
+   * @param output The combined stdout and stderr of the java process
+   */
+  static parseVersion(output: string): IJavaRuntime {
+    const properties: Record<string, string> = {}
+    let match
+    const propertyPattern = /^\s*([\w.]+) = (.*)$/gm
+    while ((match = propertyPattern.exec(output)) !== null)
+      properties[match[1]] = match[2].trim()
+
+    const versionMatch = output.match(/version "([^"]+)"/i)
+    const version = properties['java.version'] || versionMatch?.[1]
+    if (!version) throw new Error('Unable to determine the java version.')
+    //* Java 8 and older use the 1.x version scheme
+    const [first, second] = version.split(/[.+_-]/).map(v => Number(v))
+    const majorVersion = first === 1 ? second : first
+
+    const vendor =
+      properties['java.vendor'] ||
+      output.match(/^(.+?) Runtime Environment/m)?.[1] ||
+      'Unknown'
+    const bits =
+      properties['sun.arch.data.model'] === '32' ||
+      (!properties['sun.arch.data.model'] && !/64-Bit/i.test(output))
+        ? 32
+        : 64
+
+    return {
+      version,
+      majorVersion,
+      vendor,
+      bits,
+      arch: properties['os.arch'],
+      home: properties['java.home']
+    }
+  }
+
+  /**
+   * Gets the directory a java runtime is unpacked to
+   * @param majorVersion The java major version
+   */
+  static getPath(majorVersion: number) {
+    const { os, arch } = this.platform
+    return path.join(this.cachePath, `${os}-${arch}`, String(majorVersion))
+  }
+
+  /**
+   * Gets the `bin` directory of an installed java runtime
+   * @param majorVersion The java major version
+   */
+  static async getBinPath(majorVersion: number) {
+    majorVersion = this.Substitutes[majorVersion] || majorVersion
+    const runtime = this.getPath(majorVersion)
+    if (!existsSync(runtime)) return
+    const executable = process.platform === 'win32' ? 'java.exe' : 'java'
+    const candidates = [runtime, path.join(runtime, 'Contents', 'Home')]
+    //* Archives usually contain a single top level folder
+    for (const entry of await readdir(runtime, { withFileTypes: true }))
+      if (entry.isDirectory())
+        candidates.push(
+          path.join(runtime, entry.name),
+          path.join(runtime, entry.name, 'Contents', 'Home')
+        )
+    return candidates
+      .map(candidate => path.join(candidate, 'bin'))
+      .find(bin => existsSync(path.join(bin, executable)))
+  }
+
+  /**
+   * Downloads and unpacks a java runtime if it isn't already cached
+   * @param majorVersion The java major version
+   * @param force Whether to replace an existing runtime
+   * @param progressCallback Receives the download progress
+   * @returns The `bin` directory of the runtime
+   */
+  static install(
+    majorVersion: number,
+    force = false,
+    progressCallback?: (current: number, total: number) => void
+  ) {
+    majorVersion = this.Substitutes[majorVersion] || majorVersion
+    const runtime = this.getPath(majorVersion)
+    //* Servers sharing the cache wait on the same download
+    let install = this.#installs.get(runtime)
+    if (!install) {
+      install = this.#install(majorVersion, force, progressCallback).finally(
+        () => this.#installs.delete(runtime)
+      )
+      this.#installs.set(runtime, install)
+    }
+    return install
+  }
+
+  static async #install(
+    majorVersion: number,
+    force: boolean,
+    progressCallback?: (current: number, total: number) => void
+  ) {
+    const runtime = this.getPath(majorVersion)
+    if (!force) {
+      const bin = await this.getBinPath(majorVersion)
+      if (bin) return bin
+    }
+    const pkg = await this.source(majorVersion, this.platform)
+    const staging = `${runtime}.tmp`
+    const archive = path.join(path.dirname(runtime), pkg.name)
+    await rm(staging, { recursive: true, force: true })
+    await mkdir(staging, { recursive: true })
+    try {
+      await download(pkg.url, archive, undefined, progressCallback, {
+        sha256: pkg.checksum
+      })
+      await exec(`tar -xf "${archive}" -C "${staging}"`, { windowsHide: true })
+      await rm(runtime, { recursive: true, force: true })
+      await rename(staging, runtime)
+    } finally {
+      await rm(archive, { force: true })
+      await rm(staging, { recursive: true, force: true })
+    }
+    const bin = await this.getBinPath(majorVersion)
+    if (!bin)
+      throw new Error(
+        `The java ${majorVersion} archive didn't contain a java executable.`
+      )
+    return bin
+  }
+}
@@ -0,0 +1,178 @@
+import { IServerLog, LogStream, LogType } from './shared'
+
+/**
+ * A console log layout, the pattern captures the `time`, `thread`, `level`, `logger` and `message` groups
+ */
+export interface ILogFormat {
+  name: string
+  pattern: RegExp
+}
+
+/** `[12:00:00] [Server thread/INFO]: message` */
+export const VanillaLogFormat: ILogFormat = {
+  name: 'vanilla',
+  pattern:
+    /^\[(?<time>\d{1,2}:\d{2}:\d{2}(?:\.\d+)?)\] \[(?<thread>[^\]]+)\/(?<level>[A-Z]+)\]: (?<message>.*)$/
+}
+
+/** `[12:00:00 INFO]: [Essentials] message` */
+export const BukkitLogFormat: ILogFormat = {
+  name: 'bukkit',
+  pattern:
+    /^\[(?<time>\d{1,2}:\d{2}:\d{2}(?:\.\d+)?) (?<level>[A-Z]+)\]: (?:\[(?<logger>[^\]\s]+)\] )?(?<message>.*)$/
+}
+
+/** `[12Oct2023 12:00:00.123] [Server thread/INFO] [minecraft/DedicatedServer]: message` */
+export const ForgeLogFormat: ILogFormat = {
+  name: 'forge',
+  pattern:
+    /^\[(?<time>[^\]]*\d{1,2}:\d{2}:\d{2}(?:\.\d+)?)\] \[(?<thread>[^\]]+)\/(?<level>[A-Z]+)\](?: \[(?<logger>[^\]]+)\])?: (?<message>.*)$/
+}
+
+/** `[12:00:00] [Server thread/INFO] (fabric-api) message` */
+export const FabricLogFormat: ILogFormat = {
+  name: 'fabric',
+  pattern:
+    /^\[(?<time>\d{1,2}:\d{2}:\d{2}(?:\.\d+)?)\] \[(?<thread>[^\]]+)\/(?<level>[A-Z]+)\](?: \((?<logger>[^)]+)\))?:? (?<message>.*)$/
+}
+
+export const LogLevels: Record<string, LogType> = {
+  TRACE: 'DEBUG',
+  FINEST: 'DEBUG',
+  FINER: 'DEBUG',
+  FINE: 'DEBUG',
+  DEBUG: 'DEBUG',
+  INFO: 'INFO',
+  WARN: 'WARN',
+  WARNING: 'WARN',
+  ERROR: 'ERROR',
+  SEVERE: 'ERROR',
+  FATAL: 'FATAL'
+}
+
+/**
+ * Converts a printed time of day to a date, falling back to the current time
+ */
+function toTimestamp(time?: string) {
+  const now = new Date()
+  const match = time?.match(/(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d+))?$/)
+  if (!match) return now
+  const [, hours, minutes, seconds, fraction = '0'] = match
+  const timestamp = new Date(now)
+  timestamp.setHours(
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+    Number(fraction.padEnd(3, '0').slice(0, 3))
+  )
+  //* A log printed just before midnight that's read just after it
+  if (timestamp.getTime() - now.getTime() > 60 * 60 * 1000)
+    timestamp.setDate(timestamp.getDate() - 1)
+  return timestamp
+}
+
+/**
+ * Parses a single line of console output
+ * @param line The line without its line break
+ * @param formats The formats to try in order
+ * @param stream The stream the line was read from
+ * @returns The record, or undefined if the line doesn't match a format
+ */
+export function parseLogLine(
+  line: string,
+  formats: ILogFormat[],
+  stream: LogStream = 'stdout'
+): IServerLog | undefined {
+  for (const format of formats) {
+    const groups = line.match(format.pattern)?.groups
+    if (!groups) continue
+    return {
+      type: LogLevels[groups.level] || 'INFO',
+      content: line,
+      message: groups.message,
+      time: groups.time,
+      timestamp: toTimestamp(groups.time),
+      thread: groups.thread,
+      logger: groups.logger,
+      stream
+    }
+  }
+}
+
+/**
+ * Splits console output into log records
+ *
+ * Lines that don't match a format, such as stack traces, are merged into the preceding warning or error.
+ * The last record is held back until the next one starts or `flushDelay` passes so its continuation lines can be merged.
+ */
+export class LogParser {
+  formats: ILogFormat[]
+  stream: LogStream
+  flushDelay: number
+  #partial = ''
+  #pending?: IServerLog
+  #timer?: NodeJS.Timeout
+  #callback: (log: IServerLog) => void
+
+  constructor(
+    formats: ILogFormat[],
+    stream: LogStream,
+    callback: (log: IServerLog) => void,
+    flushDelay = 50
+  ) {
+    this.formats = formats
+    this.stream = stream
+    this.flushDelay = flushDelay
+    this.#callback = callback
+  }
+
+  /**
+   * Parses a chunk of output, incomplete lines wait for the rest of the line
+   */
+  push(chunk: string) {
+    const lines = (this.#partial + chunk).split(/\r?\n|\r(?!\n)/)
+    this.#partial = lines.pop() || ''
+    lines.forEach(line => this.#parseLine(line))
+    clearTimeout(this.#timer)
+    if (this.#pending || this.#partial)
+      this.#timer = setTimeout(() => this.flush(), this.flushDelay)
+  }
+
+  /** Emits the held back record and any incomplete line */
+  flush() {
+    clearTimeout(this.#timer)
+    if (this.#partial) {
+      const line = this.#partial
+      this.#partial = ''
+      this.#parseLine(line)
+    }
+    const pending = this.#pending
+    this.#pending = undefined
+    if (pending) this.#callback(pending)
+  }
+
+  #parseLine(line: string) {
+    if (!line.trim()) return
+    const log = parseLogLine(line, this.formats, this.stream)
+    const pending = this.#pending
+    if (
+      !log &&
+      pending &&
+      pending.type !== 'INFO' &&
+      pending.type !== 'DEBUG'
+    ) {
+      pending.content += `\n${line}`
+      pending.message += `\n${line}`
+      return
+    }
+    if (pending) this.#callback(pending)
+    this.#pending = log || {
+      //* Unformatted output on stderr is usually an uncaught exception
+      type: this.stream === 'stderr' ? 'ERROR' : 'INFO',
+      content: line,
+      message: line,
+      timestamp: new Date(),
+      stream: this.stream
+    }
+  }
+}
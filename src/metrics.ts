@@ -0,0 +1,229 @@
+import { readFile } from 'fs/promises'
+import { IMspt, ITps, parseMspt, parseTps } from './responses'
+import type { Server } from './servers/server'
+import { ServerStatus } from './shared'
+
+export interface IMetricsOptions {
+  /** How often the server is sampled in milliseconds while it's running, 0 disables sampling */
+  interval: number
+  /** How many samples are kept */
+  bufferSize: number
+  /** Whether to run `tps` and `mspt` through rcon for every sample, only paper and spigot have the commands */
+  tickCommands: boolean
+}
+
+export interface IMetrics {
+  /** When the sample was taken as a unix timestamp in milliseconds */
+  time: number
+  state: ServerStatus
+  /** The CPU usage of the process since the previous sample in percent, 100 is one core */
+  cpu?: number
+  /** The resident memory of the process in bytes */
+  memory?: number
+  /** How long the process has been running in seconds */
+  uptime?: number
+  players: number
+  tps?: ITps
+  mspt?: IMspt
+  /** How many times the server couldn't keep up since it started */
+  lagWarnings: number
+  /** How many ticks the server skipped to catch up since it started */
+  skippedTicks: number
+}
+
+export interface IProcessStats {
+  /** The CPU time used by the process in seconds */
+  cpuTime: number
+  /** The resident memory in bytes */
+  memory: number
+  /** How long the process has been running in seconds */
+  uptime: number
+}
+
+/** The clock ticks per second `/proc` uses, it's 100 on every common architecture */
+const ClockTicks = 100
+
+/**
+ * Reads the CPU time, memory and uptime of a process from `/proc`
+ * @returns The stats, or undefined if `/proc` isn't available or the process has exited
+ */
+export async function readProcessStats(
+  pid: number
+): Promise<IProcessStats | undefined> {
+  if (process.platform !== 'linux') return
+  try {
+    const [stat, status, uptime] = await Promise.all([
+      readFile(`/proc/${pid}/stat`, 'utf-8'),
+      readFile(`/proc/${pid}/status`, 'utf-8'),
+      readFile('/proc/uptime', 'utf-8')
+    ])
+    //* The name of the process is in brackets and can contain spaces
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ')
+    const utime = Number(fields[11])
+    const stime = Number(fields[12])
+    const startTime = Number(fields[19]) / ClockTicks
+    const rss = status.match(/^VmRSS:\s+(\d+) kB/m)
+    return {
+      cpuTime: (utime + stime) / ClockTicks,
+      memory: rss ? Number(rss[1]) * 1024 : 0,
+      uptime:
+        Math.round(
+          Math.max(0, Number(uptime.split(' ')[0]) - startTime) * 100
+        ) / 100
+    }
+  } catch {
+    return
+  }
+}
+
+/**
+ * Samples the resource usage and tick rate of a server while it's running, the samples are emitted as `metrics` and kept in a rolling buffer
+ *
+ * `Can't keep up!` warnings are counted as they're printed.
+ */
+export default class Metrics {
+  server: Server
+  options: IMetricsOptions
+  #samples: IMetrics[] = []
+  #timer?: NodeJS.Timeout
+  #sampling = false
+  #lastCpu?: { cpuTime: number; time: number }
+  #lagWarnings = 0
+  #skippedTicks = 0
+  #msptSupported = true
+
+  static DefaultOptions: IMetricsOptions = {
+    interval: 10000,
+    bufferSize: 360,
+    tickCommands: false
+  }
+
+  /** `Can't keep up! Is the server overloaded? Running 2006ms or 40 ticks behind` */
+  static LagPattern =
+    /^Can't keep up! Is the server overloaded\? Running (\d+)ms or (\d+) ticks behind/i
+
+  constructor(server: Server, options?: Partial<IMetricsOptions>) {
+    this.server = server
+    this.options = Object.assign(
+      structuredClone(Metrics.DefaultOptions),
+      options
+    )
+    server.on('stateUpdate', state => {
+      if (state === 'STARTING') this.#reset()
+      if (state === 'RUNNING') this.#start()
+      else this.#stop()
+    })
+    server.on('message', log => {
+      const match = log.message.match(Metrics.LagPattern)
+      if (!match) return
+      this.#lagWarnings++
+      this.#skippedTicks += Number(match[2])
+    })
+  }
+
+  /** The samples from oldest to newest */
+  get samples() {
+    return [...this.#samples]
+  }
+
+  get latest(): IMetrics | undefined {
+    return this.#samples[this.#samples.length - 1]
+  }
+
+  get lagWarnings() {
+    return this.#lagWarnings
+  }
+
+  get skippedTicks() {
+    return this.#skippedTicks
+  }
+
+  /**
+   * Takes a sample, adds it to the buffer and emits `metrics`
+   */
+  async sample() {
+    const { server } = this
+    const time = Date.now()
+    const metrics: IMetrics = {
+      time,
+      state: server.state,
+      players: server.players.length,
+      lagWarnings: this.#lagWarnings,
+      skippedTicks: this.#skippedTicks
+    }
+    const pid = server.pid
+    const stats = pid ? await readProcessStats(pid) : undefined
+    if (stats) {
+      //* The first sample uses the average since the process started
+      const last = this.#lastCpu || {
+        cpuTime: 0,
+        time: time - stats.uptime * 1000
+      }
+      if (time > last.time)
+        metrics.cpu =
+          ((stats.cpuTime - last.cpuTime) / ((time - last.time) / 1000)) * 100
+      this.#lastCpu = { cpuTime: stats.cpuTime, time }
+      metrics.memory = stats.memory
+      metrics.uptime = stats.uptime
+    }
+    //* Commands written to stdin end up in the logs, so they're only sent through rcon
+    if (
+      this.options.tickCommands &&
+      server.state === 'RUNNING' &&
+      server.rcon?.connected
+    ) {
+      metrics.tps = await server
+        .execute('tps', true)
+        .then(response => parseTps(response || ''))
+        .catch(() => undefined)
+      if (this.#msptSupported) {
+        const response = await server
+          .execute('mspt', true)
+          .catch(() => undefined)
+        //* Spigot doesn't have `mspt`, only paper does, a failed call is tried again next sample
+        if (response !== undefined) {
+          metrics.mspt = parseMspt(response)
+          if (!metrics.mspt) this.#msptSupported = false
+        }
+      }
+    }
+    this.#samples.push(metrics)
+    if (this.#samples.length > this.options.bufferSize)
+      this.#samples.splice(0, this.#samples.length - this.options.bufferSize)
+    server.emit('metrics', metrics)
+    return metrics
+  }
+
+  /** Removes the samples */
+  clear() {
+    this.#samples = []
+  }
+
+  #start() {
+    this.#stop()
+    const { interval } = this.options
+    if (interval <= 0) return
+    this.#timer = setInterval(() => {
+      if (this.#sampling) return
+      this.#sampling = true
+      this.sample()
+        .catch(err =>
+          this.server.warn(`Failed to sample metrics. ${err.message}`)
+        )
+        .finally(() => (this.#sampling = false))
+    }, interval)
+  }
+
+  #stop() {
+    clearInterval(this.#timer)
+    this.#timer = undefined
+  }
+
+  //* The counters start again with the process
+  #reset() {
+    this.#lastCpu = undefined
+    this.#lagWarnings = 0
+    this.#skippedTicks = 0
+    this.#msptSupported = true
+  }
+}
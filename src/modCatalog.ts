@@ -0,0 +1,154 @@
+import { StatusError } from './request'
+
+export interface ICatalogOptions {
+  /** The url of the Modrinth API, or of a server with the same API */
+  baseUrl: string
+  /** Modrinth asks clients to identify themselves */
+  userAgent: string
+}
+
+export interface ICatalogSearchOptions {
+  gameVersion?: string
+  loader: string
+  limit: number
+  offset: number
+}
+
+export interface ICatalogProject {
+  project_id: string
+  slug: string
+  title: string
+  description: string
+  downloads: number
+  /** The game versions the project supports */
+  versions: string[]
+  /** Whether the project is used on the server, client or both */
+  server_side: 'required' | 'optional' | 'unsupported' | 'unknown'
+  client_side: 'required' | 'optional' | 'unsupported' | 'unknown'
+}
+
+export interface ICatalogSearchResult {
+  hits: ICatalogProject[]
+  offset: number
+  limit: number
+  total_hits: number
+}
+
+export interface ICatalogFile {
+  url: string
+  filename: string
+  /** Whether this is the main file of the version */
+  primary: boolean
+  size: number
+  hashes: { sha1: string; sha512: string }
+}
+
+export interface ICatalogDependency {
+  project_id?: string
+  version_id?: string
+  dependency_type: 'required' | 'optional' | 'incompatible' | 'embedded'
+}
+
+export interface ICatalogVersion {
+  id: string
+  project_id: string
+  name: string
+  version_number: string
+  game_versions: string[]
+  loaders: string[]
+  date_published: string
+  files: ICatalogFile[]
+  dependencies: ICatalogDependency[]
+}
+
+/**
+ * A client for the Modrinth API, the base url can point at any server with the same API
+ */
+export default class ModCatalog {
+  options: ICatalogOptions
+
+  static DefaultOptions: ICatalogOptions = {
+    baseUrl: 'https://api.modrinth.com/v2',
+    userAgent: 'FFGFlash/MCServerJS'
+  }
+
+  constructor(options?: Partial<ICatalogOptions>) {
+    this.options = Object.assign(
+      structuredClone(ModCatalog.DefaultOptions),
+      options
+    )
+  }
+
+  /**
+   * Searches for mods
+   * @param options The game version and loader the mods must support
+   */
+  search(query: string, options?: Partial<ICatalogSearchOptions>) {
+    const { gameVersion, loader, limit, offset } = {
+      loader: 'fabric',
+      limit: 10,
+      offset: 0,
+      ...options
+    }
+    const facets = [['project_type:mod'], [`categories:${loader}`]]
+    if (gameVersion) facets.push([`versions:${gameVersion}`])
+    return this.#get<ICatalogSearchResult>('/search', {
+      query,
+      facets: JSON.stringify(facets),
+      limit: String(limit),
+      offset: String(offset)
+    })
+  }
+
+  /**
+   * Gets the versions of a project, newest first
+   * @param project The id or slug of the project
+   */
+  getVersions(
+    project: string,
+    options?: Partial<Pick<ICatalogSearchOptions, 'gameVersion' | 'loader'>>
+  ) {
+    const { gameVersion, loader } = { loader: 'fabric', ...options }
+    const params: Record<string, string> = {
+      loaders: JSON.stringify([loader])
+    }
+    if (gameVersion) params.game_versions = JSON.stringify([gameVersion])
+    return this.#get<ICatalogVersion[]>(
+      `/project/${encodeURIComponent(project)}/version`,
+      params
+    )
+  }
+
+  getVersion(id: string) {
+    return this.#get<ICatalogVersion>(`/version/${encodeURIComponent(id)}`)
+  }
+
+  /**
+   * Gets the newest version of a project that supports the game version and loader
+   * @returns The version, or undefined if no version supports them
+   */
+  async getLatestVersion(
+    project: string,
+    options?: Partial<Pick<ICatalogSearchOptions, 'gameVersion' | 'loader'>>
+  ) {
+    const versions = await this.getVersions(project, options)
+    return versions.sort((a, b) =>
+      b.date_published.localeCompare(a.date_published)
+    )[0] as ICatalogVersion | undefined
+  }
+
+  async #get<T>(route: string, params?: Record<string, string>) {
+    const url = new URL(this.options.baseUrl.replace(/\/$/, '') + route)
+    if (params)
+      for (const [key, value] of Object.entries(params))
+        url.searchParams.set(key, value)
+    const res = await fetch(url, {
+      headers: {
+        'User-Agent': this.options.userAgent,
+        'Accept': 'application/json'
+      }
+    })
+    if (!res.ok) throw new StatusError(res.status, res.statusText)
+    return (await res.json()) as T
+  }
+}
@@ -0,0 +1,528 @@
+import { randomBytes } from 'crypto'
+import { existsSync } from 'fs'
+import { copyFile, mkdir, readdir, rename, unlink } from 'fs/promises'
+import path from 'path'
+import ModCatalog, { ICatalogVersion } from './modCatalog'
+import { download, IDownloadOptions } from './request'
+import type FabricServer from './servers/fabricServer'
+import { readZipEntry, ZipSource } from './zip'
+
+/** A version predicate from `fabric.mod.json`, a list matches if any predicate matches */
+export type VersionPredicate = string | string[]
+
+export type ModEnvironment = '*' | 'client' | 'server'
+
+export interface IMod {
+  id: string
+  version: string
+  name?: string
+  description?: string
+  authors: string[]
+  environment: ModEnvironment
+  /** The mods that must be installed, by id */
+  depends: Record<string, VersionPredicate>
+  /** The mods that crash the game if they're installed */
+  breaks: Record<string, VersionPredicate>
+  /** The mods that cause problems if they're installed */
+  conflicts: Record<string, VersionPredicate>
+  /** Other ids the mod can be depended on by */
+  provides: string[]
+  /** The ids and versions of the mods bundled in the jar, e.g. the modules of fabric-api */
+  bundled: Record<string, string>
+  /** The path of the jar */
+  file: string
+  /** Disabled mods are in the disabled folder and aren't loaded */
+  enabled: boolean
+}
+
+/** The fields of `fabric.mod.json` that are read, every field is checked before it's used */
+interface IFabricModJson {
+  id?: unknown
+  version?: unknown
+  name?: unknown
+  description?: unknown
+  authors?: unknown
+  environment?: unknown
+  depends?: unknown
+  breaks?: unknown
+  conflicts?: unknown
+  provides?: unknown
+  jars?: unknown
+}
+
+export type ModProblemType =
+  | 'invalid'
+  | 'duplicate'
+  | 'client-only'
+  | 'missing-dependency'
+  | 'incompatible'
+  | 'conflict'
+
+export interface IModProblem {
+  type: ModProblemType
+  /** The id of the mod, or the file name of an invalid jar */
+  mod: string
+  message: string
+}
+
+export interface IModReport {
+  /** The enabled mods */
+  mods: IMod[]
+  problems: IModProblem[]
+}
+
+export interface ICatalogInstallOptions {
+  /** Whether to install the required dependencies of the mod */
+  dependencies: boolean
+}
+
+/**
+ * Manages the mods of a fabric server, mods are read from the `fabric.mod.json` in their jar
+ */
+export default class Mods {
+  server: FabricServer
+  /** The catalog mods can be installed from by their project id or slug */
+  catalog?: ModCatalog
+
+  /** The folder disabled mods are moved to, inside the mods folder */
+  static DisabledFolder = 'disabled'
+  /** Dependencies that aren't mods, `java` isn't checked */
+  static BuiltIns = ['minecraft', 'fabricloader', 'java']
+
+  constructor(server: FabricServer, catalog?: ModCatalog) {
+    this.server = server
+    this.catalog = catalog
+  }
+
+  get path() {
+    return path.join(this.server.path, 'mods')
+  }
+
+  get disabledPath() {
+    return path.join(this.path, Mods.DisabledFolder)
+  }
+
+  /**
+   * Gets the installed mods, jars without a valid `fabric.mod.json` are skipped
+   * @param disabled Whether to include disabled mods
+   */
+  async list(disabled = false) {
+    const { mods } = await this.#scan(this.path)
+    if (disabled) mods.push(...(await this.#scan(this.disabledPath)).mods)
+    return mods
+  }
+
+  /**
+   * Gets a mod by its id or file name
+   */
+  async get(id: string) {
+    const mods = await this.list(true)
+    return (
+      mods.find(mod => mod.id === id) ||
+      mods.find(mod => path.basename(mod.file) === id)
+    )
+  }
+
+  /**
+   * Installs a mod from a file or url, an installed mod with the same id is replaced
+   * @param source The path or url of the jar
+   * @param options The expected hashes and size of a downloaded jar
+   * @throws {ModError} If the jar doesn't have a valid `fabric.mod.json`
+   */
+  async install(source: string, options?: IDownloadOptions) {
+    await mkdir(this.path, { recursive: true })
+    const isUrl = /^https?:\/\//i.test(source)
+    const fileName = isUrl
+      ? decodeURIComponent(path.basename(new URL(source).pathname))
+      : path.basename(source)
+    const temp = path.join(
+      this.path,
+      `.${randomBytes(8).toString('hex')}.download`
+    )
+    try {
+      if (isUrl) await download(source, temp, undefined, undefined, options)
+      else await copyFile(source, temp)
+      const mod = await Mods.read(temp)
+      const existing = await this.get(mod.id)
+      if (existing) await unlink(existing.file)
+      mod.file = path.join(
+        this.path,
+        fileName.endsWith('.jar') ? fileName : `${mod.id}.jar`
+      )
+      await rename(temp, mod.file)
+      this.server.log(`Installed ${mod.id} ${mod.version}.`)
+      return mod
+    } finally {
+      if (existsSync(temp)) await unlink(temp)
+    }
+  }
+
+  /**
+   * Installs the newest version of a project from the catalog that supports the server version
+   * @param project The id or slug of the project
+   * @returns The installed mods, dependencies first
+   * @throws {ModError} If there isn't a catalog or no version supports the server version
+   */
+  async installFromCatalog(
+    project: string,
+    options?: Partial<ICatalogInstallOptions>
+  ) {
+    const { dependencies } = { dependencies: true, ...options }
+    const { catalog } = this
+    if (!catalog) throw new ModError('A catalog must be set to install from.')
+    const installed: IMod[] = []
+    const visited = new Set<string>()
+    const installVersion = async (
+      version: ICatalogVersion,
+      isDependency = false
+    ) => {
+      if (visited.has(version.project_id)) return
+      visited.add(version.project_id)
+      if (dependencies)
+        for (const dependency of version.dependencies) {
+          if (dependency.dependency_type !== 'required') continue
+          const required = dependency.version_id
+            ? await catalog.getVersion(dependency.version_id)
+            : dependency.project_id
+            ? await this.#getCatalogVersion(dependency.project_id)
+            : undefined
+          if (required) await installVersion(required, true)
+        }
+      const file = version.files.find(file => file.primary) || version.files[0]
+      if (!file)
+        throw new ModError(`${version.name} doesn't have a file to install.`)
+      //* Dependencies that are already installed are kept
+      if (isDependency && existsSync(path.join(this.path, file.filename)))
+        return
+      installed.push(
+        await this.install(file.url, {
+          sha1: file.hashes.sha1,
+          size: file.size
+        })
+      )
+    }
+    await installVersion(await this.#getCatalogVersion(project))
+    return installed
+  }
+
+  /**
+   * Deletes a mod, its config is kept
+   * @returns Whether the mod was installed
+   */
+  async remove(id: string) {
+    const mod = await this.get(id)
+    if (!mod) return false
+    await unlink(mod.file)
+    return true
+  }
+
+  /**
+   * Moves a mod to the disabled folder so it isn't loaded
+   * @returns Whether the mod was enabled
+   */
+  async disable(id: string) {
+    const mod = await this.get(id)
+    if (!mod || !mod.enabled) return false
+    await mkdir(this.disabledPath, { recursive: true })
+    await rename(
+      mod.file,
+      path.join(this.disabledPath, path.basename(mod.file))
+    )
+    return true
+  }
+
+  /**
+   * Moves a mod out of the disabled folder
+   * @returns Whether the mod was disabled
+   */
+  async enable(id: string) {
+    const mod = await this.get(id)
+    if (!mod || mod.enabled) return false
+    await rename(mod.file, path.join(this.path, path.basename(mod.file)))
+    return true
+  }
+
+  /**
+   * Checks the enabled mods against each other, the minecraft version and the fabric loader
+   */
+  async check(): Promise<IModReport> {
+    const { mods, invalid } = await this.#scan(this.path)
+    const problems: IModProblem[] = invalid.map(({ file, message }) => ({
+      type: 'invalid',
+      mod: path.basename(file),
+      message: `'${path.basename(file)}' isn't a valid mod. ${message}`
+    }))
+
+    const byId = new Map<string, IMod>()
+    for (const mod of mods) {
+      const other = byId.get(mod.id)
+      if (!other) byId.set(mod.id, mod)
+      else
+        problems.push({
+          type: 'duplicate',
+          mod: mod.id,
+          message: `'${mod.id}' is installed twice, '${path.basename(
+            other.file
+          )}' and '${path.basename(mod.file)}'.`
+        })
+    }
+
+    //* The versions every dependency can be matched against
+    const available = new Map<string, string>()
+    if (this.server.version) available.set('minecraft', this.server.version)
+    if (this.server.loader) available.set('fabricloader', this.server.loader)
+    for (const mod of byId.values()) {
+      available.set(mod.id, mod.version)
+      for (const id of mod.provides) available.set(id, mod.version)
+      for (const [id, version] of Object.entries(mod.bundled))
+        if (!available.has(id)) available.set(id, version)
+    }
+    //* `fabric` is the old id of fabric-api
+    if (available.has('fabric-api') && !available.has('fabric'))
+      available.set('fabric', available.get('fabric-api') as string)
+
+    for (const mod of byId.values()) {
+      if (mod.environment === 'client')
+        problems.push({
+          type: 'client-only',
+          mod: mod.id,
+          message: `'${mod.id}' is a client-only mod.`
+        })
+
+      for (const [id, predicate] of Object.entries(mod.depends)) {
+        const version = available.get(id)
+        if (version === undefined) {
+          //* Only the loader and minecraft versions can be unknown
+          if (Mods.BuiltIns.includes(id)) continue
+          problems.push({
+            type: 'missing-dependency',
+            mod: mod.id,
+            message: `'${mod.id}' depends on '${id}' ${formatPredicate(
+              predicate
+            )} which isn't installed.`
+          })
+        } else if (!satisfiesVersion(version, predicate))
+          problems.push({
+            type: 'incompatible',
+            mod: mod.id,
+            message: `'${mod.id}' needs '${id}' ${formatPredicate(
+              predicate
+            )} but ${version} is installed.`
+          })
+      }
+
+      const conflicts = { ...mod.conflicts, ...mod.breaks }
+      for (const [id, predicate] of Object.entries(conflicts)) {
+        const version = available.get(id)
+        if (version === undefined || Mods.BuiltIns.includes(id)) continue
+        if (satisfiesVersion(version, predicate))
+          problems.push({
+            type: 'conflict',
+            mod: mod.id,
+            message: `'${mod.id}' ${
+              mod.breaks[id] ? "doesn't work" : 'conflicts'
+            } with '${id}' ${version}.`
+          })
+      }
+    }
+
+    return { mods, problems }
+  }
+
+  async #getCatalogVersion(project: string) {
+    const version = await this.catalog?.getLatestVersion(project, {
+      gameVersion: this.server.version,
+      loader: 'fabric'
+    })
+    if (!version)
+      throw new ModError(
+        `'${project}' doesn't have a version for minecraft ${
+          this.server.version || 'latest'
+        }.`
+      )
+    return version
+  }
+
+  /** Reads the mods in a folder */
+  async #scan(folder: string) {
+    const mods: IMod[] = []
+    const invalid: { file: string; message: string }[] = []
+    if (!existsSync(folder)) return { mods, invalid }
+    const files = (await readdir(folder, { withFileTypes: true }))
+      .filter(entry => entry.isFile() && entry.name.endsWith('.jar'))
+      .map(entry => path.join(folder, entry.name))
+      .sort()
+    for (const file of files) {
+      try {
+        mods.push(await Mods.read(file))
+      } catch (err: any) {
+        invalid.push({ file, message: err.message })
+      }
+    }
+    return { mods, invalid }
+  }
+
+  /**
+   * Reads the `fabric.mod.json` of a jar, and of the jars bundled in it
+   * @throws {ModError} If the jar doesn't have a valid `fabric.mod.json`
+   */
+  static async read(file: string): Promise<IMod> {
+    const mod = await Mods.#readJar(file)
+    return {
+      ...mod,
+      file,
+      enabled: path.basename(path.dirname(file)) !== Mods.DisabledFolder
+    }
+  }
+
+  static async #readJar(
+    source: ZipSource,
+    depth = 0
+  ): Promise<Omit<IMod, 'file' | 'enabled'>> {
+    let json: IFabricModJson | null
+    try {
+      const content = await readZipEntry(source, 'fabric.mod.json')
+      if (!content)
+        throw new ModError("The jar doesn't have a fabric.mod.json.")
+      //* Mods are parsed leniently by the loader, so raw line breaks in strings are allowed
+      json = JSON.parse(content.toString('utf-8').replace(/\r?\n/g, ' '))
+      if (typeof json !== 'object' || Array.isArray(json)) json = null
+    } catch (err: any) {
+      throw err instanceof ModError ? err : new ModError(err.message)
+    }
+    if (!json || typeof json.id !== 'string')
+      throw new ModError("The fabric.mod.json doesn't have an id.")
+
+    const predicates = (value: unknown) => {
+      const result: Record<string, VersionPredicate> = {}
+      if (value && typeof value === 'object')
+        for (const [id, predicate] of Object.entries(value))
+          result[id] = Array.isArray(predicate)
+            ? predicate.map(String)
+            : String(predicate)
+      return result
+    }
+    const bundled: Record<string, string> = {}
+    const jars: { file?: unknown }[] = Array.isArray(json.jars)
+      ? json.jars.filter(jar => jar && typeof jar === 'object')
+      : []
+    //* Only the mods bundled directly in the jar and their bundled mods are read
+    if (depth < 2)
+      for (const { file: nested } of jars) {
+        if (typeof nested !== 'string') continue
+        const content = await readZipEntry(source, nested).catch(() => {})
+        if (!content) continue
+        const mod = await Mods.#readJar(content, depth + 1).catch(() => {})
+        if (!mod) continue
+        bundled[mod.id] = mod.version
+        for (const id of mod.provides) bundled[id] = mod.version
+        Object.assign(bundled, mod.bundled)
+      }
+
+    return {
+      id: json.id,
+      version: String(json.version ?? ''),
+      name: typeof json.name === 'string' ? json.name : undefined,
+      description:
+        typeof json.description === 'string' ? json.description : undefined,
+      authors: (Array.isArray(json.authors) ? json.authors : [])
+        .map((author: unknown) =>
+          typeof author === 'string'
+            ? author
+            : author && typeof author === 'object' && 'name' in author
+            ? author.name
+            : undefined
+        )
+        .filter((author): author is string => typeof author === 'string'),
+      environment:
+        json.environment === 'client' || json.environment === 'server'
+          ? json.environment
+          : '*',
+      depends: predicates(json.depends),
+      breaks: predicates(json.breaks),
+      conflicts: predicates(json.conflicts),
+      provides: Array.isArray(json.provides) ? json.provides.map(String) : [],
+      bundled
+    }
+  }
+}
+
+/**
+ * Compares two semantic versions, pre-releases are older than their release and build metadata is ignored
+ * @returns A negative number if `a` is older than `b`, a positive number if it's newer and 0 if they're equal
+ */
+export function compareSemver(a: string, b: string) {
+  const parse = (version: string) => {
+    const [core, ...pre] = version.replace(/\+.*$/, '').split('-')
+    return {
+      parts: core.split('.').map(part => Number(part) || 0),
+      pre: pre.join('-')
+    }
+  }
+  const aVersion = parse(a)
+  const bVersion = parse(b)
+  const length = Math.max(aVersion.parts.length, bVersion.parts.length)
+  for (let i = 0; i < length; i++) {
+    const diff = (aVersion.parts[i] || 0) - (bVersion.parts[i] || 0)
+    if (diff) return diff
+  }
+  if (!aVersion.pre || !bVersion.pre) return +!aVersion.pre - +!bVersion.pre
+  return aVersion.pre.localeCompare(bVersion.pre, undefined, { numeric: true })
+}
+
+/**
+ * Checks a version against a predicate from `fabric.mod.json`, e.g. `>=0.14.0`, `~1.20`, `1.20.x` or `*`
+ * @param predicate Space separated predicates must all match, a list matches if any predicate matches
+ */
+export function satisfiesVersion(version: string, predicate: VersionPredicate) {
+  const predicates = Array.isArray(predicate) ? predicate : [predicate]
+  return predicates.some(predicate =>
+    predicate
+      .trim()
+      .split(/\s+/)
+      .every(part => {
+        const [, operator = '=', target = ''] =
+          part.match(/^(>=|<=|>|<|=|~|\^)?(.*)$/) || []
+        if (!target || target === '*') return true
+        //* `1.20.x` matches any version starting with `1.20`
+        const wildcard = target.search(/(^|\.)[xX*](\.|$)/)
+        if (wildcard !== -1) {
+          const prefix = target
+            .slice(0, wildcard)
+            .split('.')
+            .filter(p => p)
+          const parts = version.split(/[.+-]/)
+          return prefix.every((part, i) => part === parts[i])
+        }
+        const diff = compareSemver(version, target)
+        const [major, minor] = target.split('.')
+        const [vMajor, vMinor] = version.split('.')
+        switch (operator) {
+          case '>=':
+            return diff >= 0
+          case '<=':
+            return diff <= 0
+          case '>':
+            return diff > 0
+          case '<':
+            return diff < 0
+          case '~':
+            return (
+              diff >= 0 &&
+              vMajor === major &&
+              (minor === undefined || vMinor === minor)
+            )
+          case '^':
+            return diff >= 0 && vMajor === major
+          default:
+            return diff === 0
+        }
+      })
+  )
+}
+
+function formatPredicate(predicate: VersionPredicate) {
+  return Array.isArray(predicate) ? predicate.join(' || ') : predicate
+}
+
+export class ModError extends Error {}
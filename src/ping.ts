@@ -0,0 +1,326 @@
+import { randomBytes } from 'crypto'
+import { createConnection, Socket } from 'net'
+
+export interface IPingOptions {
+  host: string
+  port: number
+  /** How long to wait for the server in milliseconds */
+  timeout: number
+  /** The protocol version sent in the handshake, -1 if the version of the server isn't known */
+  protocol: number
+}
+
+export interface IPingResponse {
+  version: { name: string; protocol: number }
+  players: {
+    online: number
+    max: number
+    sample: { name: string; id: string }[]
+  }
+  /** The MOTD as plain text */
+  motd: string
+  /** The MOTD as sent by the server, either a string or a chat component */
+  description: unknown
+  /** The server icon as a data uri */
+  favicon?: string
+  /** The round trip time in milliseconds */
+  latency: number
+}
+
+interface IStatusResponse {
+  version?: { name?: string; protocol?: number }
+  players?: {
+    online?: number
+    max?: number
+    sample?: { name: string; id: string }[]
+  }
+  description?: unknown
+  favicon?: string
+}
+
+export const DefaultPingOptions: IPingOptions = {
+  host: '127.0.0.1',
+  port: 25565,
+  timeout: 5000,
+  protocol: -1
+}
+
+/**
+ * Gets the status of a server with a Server List Ping, supported by 1.7 and newer
+ * @throws {PingError} If the server can't be reached or doesn't respond in time
+ */
+export async function ping(options?: Partial<IPingOptions>) {
+  const { host, port, timeout, protocol } = {
+    ...DefaultPingOptions,
+    ...options
+  }
+  const socket = await connect(host, port, timeout)
+  try {
+    const portBuffer = Buffer.alloc(2)
+    portBuffer.writeUInt16BE(port)
+    socket.write(
+      createPacket(
+        0x00,
+        writeVarInt(protocol),
+        writeString(host),
+        portBuffer,
+        writeVarInt(1)
+      )
+    )
+    socket.write(createPacket(0x00))
+    const status = await receive(socket, timeout, buffer => {
+      const packet = readPacket(buffer)
+      if (!packet) return
+      if (packet.id !== 0x00)
+        throw new PingError(`Unexpected packet with id ${packet.id}.`)
+      const length = readVarInt(packet.data)
+      if (!length) throw new PingError('The status response is malformed.')
+      const json = packet.data.toString(
+        'utf-8',
+        length.size,
+        length.size + length.value
+      )
+      return JSON.parse(json) as IStatusResponse
+    })
+
+    const payload = randomBytes(8)
+    const start = Date.now()
+    socket.write(createPacket(0x01, payload))
+    await receive(socket, timeout, buffer => {
+      const packet = readPacket(buffer)
+      if (!packet) return
+      if (packet.id !== 0x01 || !packet.data.equals(payload))
+        throw new PingError('The server responded with the wrong payload.')
+      return true
+    })
+    const latency = Date.now() - start
+
+    return {
+      version: {
+        name: status.version?.name || '',
+        protocol: status.version?.protocol ?? -1
+      },
+      players: {
+        online: status.players?.online ?? 0,
+        max: status.players?.max ?? 0,
+        sample: status.players?.sample || []
+      },
+      motd: stripFormatting(flattenText(status.description)),
+      description: status.description,
+      favicon: status.favicon,
+      latency
+    } as IPingResponse
+  } finally {
+    socket.destroy()
+  }
+}
+
+/**
+ * Gets the status of a server with the ping used before 1.7, the response doesn't include a player sample
+ * @throws {PingError} If the server can't be reached or doesn't respond in time
+ */
+export async function pingLegacy(options?: Partial<IPingOptions>) {
+  const { host, port, timeout, protocol } = {
+    ...DefaultPingOptions,
+    ...options
+  }
+  const socket = await connect(host, port, timeout)
+  try {
+    //* The plugin message is only read by 1.6, older versions respond to the first two bytes
+    const channel = encodeUtf16('MC|PingHost')
+    const hostname = encodeUtf16(host)
+    const request = Buffer.alloc(
+      3 + 2 + channel.length + 2 + 1 + 2 + hostname.length + 4
+    )
+    let offset = request.writeUInt8(0xfe, 0)
+    offset = request.writeUInt8(0x01, offset)
+    offset = request.writeUInt8(0xfa, offset)
+    offset = request.writeUInt16BE(channel.length / 2, offset)
+    offset += channel.copy(request, offset)
+    offset = request.writeUInt16BE(7 + hostname.length, offset)
+    offset = request.writeUInt8(protocol < 0 ? 74 : protocol, offset)
+    offset = request.writeUInt16BE(hostname.length / 2, offset)
+    offset += hostname.copy(request, offset)
+    request.writeInt32BE(port, offset)
+
+    const start = Date.now()
+    socket.write(request)
+    const response = await receive(socket, timeout, buffer => {
+      if (buffer.length < 3) return
+      if (buffer[0] !== 0xff)
+        throw new PingError('The server responded with an unexpected packet.')
+      const length = buffer.readUInt16BE(1) * 2
+      if (buffer.length < 3 + length) return
+      return decodeUtf16(buffer.subarray(3, 3 + length))
+    })
+    const latency = Date.now() - start
+
+    //* 1.4 and newer respond with `§1\0protocol\0version\0motd\0online\0max`
+    if (response.startsWith('§1\0')) {
+      const [, protocol, version, motd, online, max] = response.split('\0')
+      return {
+        version: { name: version, protocol: Number(protocol) },
+        players: { online: Number(online), max: Number(max), sample: [] },
+        motd: stripFormatting(motd),
+        description: motd,
+        latency
+      } as IPingResponse
+    }
+    //* Older versions respond with `motd§online§max`
+    const parts = response.split('§')
+    const max = parts.pop()
+    const online = parts.pop()
+    const motd = parts.join('§')
+    return {
+      version: { name: '', protocol: -1 },
+      players: { online: Number(online), max: Number(max), sample: [] },
+      motd: stripFormatting(motd),
+      description: motd,
+      latency
+    } as IPingResponse
+  } finally {
+    socket.destroy()
+  }
+}
+
+/**
+ * Converts a chat component to plain text
+ * @param component A string, a chat component or an array of chat components
+ */
+export function flattenText(component: unknown): string {
+  if (typeof component === 'string') return component
+  if (Array.isArray(component)) return component.map(flattenText).join('')
+  if (!component || typeof component !== 'object') return ''
+  const { text = '', extra = [] } = component as {
+    text?: string
+    extra?: unknown[]
+  }
+  return String(text) + extra.map(flattenText).join('')
+}
+
+/** Removes `§` formatting codes */
+export function stripFormatting(text: string) {
+  return text.replace(/§[0-9a-fk-or]/gi, '')
+}
+
+export function writeVarInt(value: number) {
+  const bytes: number[] = []
+  //* Negative numbers are written as unsigned 32-bit numbers
+  value >>>= 0
+  do {
+    let byte = value & 0x7f
+    value >>>= 7
+    if (value) byte |= 0x80
+    bytes.push(byte)
+  } while (value)
+  return Buffer.from(bytes)
+}
+
+/**
+ * Reads a VarInt from a buffer
+ * @returns The value and the number of bytes it used, or undefined if the VarInt is incomplete
+ */
+export function readVarInt(buffer: Buffer, offset = 0) {
+  let value = 0
+  let size = 0
+  let byte: number
+  do {
+    if (offset + size >= buffer.length) return
+    byte = buffer[offset + size]
+    value |= (byte & 0x7f) << (7 * size)
+    if (++size > 5) throw new PingError('The VarInt is too big.')
+  } while (byte & 0x80)
+  return { value, size }
+}
+
+function writeString(value: string) {
+  const content = Buffer.from(value, 'utf-8')
+  return Buffer.concat([writeVarInt(content.length), content])
+}
+
+function createPacket(id: number, ...fields: Buffer[]) {
+  const body = Buffer.concat([writeVarInt(id), ...fields])
+  return Buffer.concat([writeVarInt(body.length), body])
+}
+
+function readPacket(buffer: Buffer) {
+  const length = readVarInt(buffer)
+  if (!length || buffer.length < length.size + length.value) return
+  const id = readVarInt(buffer, length.size)
+  if (!id) throw new PingError('The packet is malformed.')
+  return {
+    id: id.value,
+    data: buffer.subarray(length.size + id.size, length.size + length.value)
+  }
+}
+
+function encodeUtf16(value: string) {
+  return Buffer.from(value, 'utf16le').swap16()
+}
+
+function decodeUtf16(buffer: Buffer) {
+  return Buffer.from(buffer).swap16().toString('utf16le')
+}
+
+function connect(host: string, port: number, timeout: number) {
+  return new Promise<Socket>((resolve, reject) => {
+    const socket = createConnection({ host, port })
+    const timer = setTimeout(() => {
+      socket.destroy()
+      reject(new PingError(`Unable to connect to ${host}:${port}.`))
+    }, timeout)
+    socket.once('connect', () => {
+      clearTimeout(timer)
+      socket.removeAllListeners('error')
+      //* Errors are reported by the pending read as the connection closes
+      socket.on('error', () => {})
+      resolve(socket)
+    })
+    socket.once('error', err => {
+      clearTimeout(timer)
+      reject(
+        new PingError(`Unable to connect to ${host}:${port}. ${err.message}`)
+      )
+    })
+  })
+}
+
+/**
+ * Reads from a socket until the parser returns a value
+ * @param parse Parses the data received so far, returns undefined if more data is needed
+ */
+function receive<T>(
+  socket: Socket,
+  timeout: number,
+  parse: (buffer: Buffer) => T | undefined
+) {
+  return new Promise<T>((resolve, reject) => {
+    let buffer = Buffer.alloc(0)
+    const done = (err?: Error, value?: T) => {
+      clearTimeout(timer)
+      socket.off('data', onData)
+      socket.off('close', onClose)
+      if (err) reject(err)
+      else resolve(value as T)
+    }
+    const onData = (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data])
+      try {
+        const value = parse(buffer)
+        if (value !== undefined) done(undefined, value)
+      } catch (err: any) {
+        done(err instanceof PingError ? err : new PingError(err.message))
+      }
+    }
+    const onClose = () =>
+      done(new PingError('The connection closed before the server responded.'))
+    const timer = setTimeout(
+      () => done(new PingError('The server did not respond in time.')),
+      timeout
+    )
+    socket.on('data', onData)
+    socket.on('close', onClose)
+  })
+}
+
+export class PingError extends Error {}
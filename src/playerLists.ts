@@ -0,0 +1,431 @@
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { isIP } from 'net'
+import path from 'path'
+import { formatUuid, IProfile } from './profiles'
+import type { Server } from './servers/server'
+
+export type IWhitelistEntry = IProfile
+
+export interface IOp extends IProfile {
+  /** The permission level from 1 to 4 */
+  level: number
+  /** Whether the player can join when the server is full */
+  bypassesPlayerLimit: boolean
+}
+
+export interface IBanDetails {
+  created: Date
+  /** Who banned the player, `Server` for the console */
+  source: string
+  /** When the ban ends, undefined if it's permanent */
+  expires?: Date
+  reason: string
+}
+
+export interface IBan extends IProfile, IBanDetails {}
+
+export interface IIpBan extends IBanDetails {
+  ip: string
+}
+
+export interface IOpOptions {
+  level: number
+  bypassesPlayerLimit: boolean
+}
+
+export interface IBanOptions {
+  reason: string
+  source: string
+  /** When the ban ends, bans are permanent by default */
+  expires?: Date
+}
+
+/** The player to add, names are resolved with the server's profile resolver */
+export type PlayerSource = string | IProfile
+
+const DefaultBanOptions: IBanOptions = {
+  reason: 'Banned by an operator.',
+  source: 'Server'
+}
+
+/**
+ * Formats a date the way the server writes it in the ban lists, e.g. `2023-07-01 12:30:00 +0000`
+ */
+export function formatBanDate(date: Date) {
+  return date
+    .toISOString()
+    .replace('T', ' ')
+    .replace(/\.\d+Z$/, ' +0000')
+}
+
+/**
+ * Parses a date from the ban lists
+ * @returns The date, or undefined for `forever`
+ */
+export function parseBanDate(date: string) {
+  const match = date.match(
+    /^(\d{4}-\d\d-\d\d) (\d\d:\d\d:\d\d) ([+-]\d\d)(\d\d)$/
+  )
+  if (!match) return
+  return new Date(`${match[1]}T${match[2]}${match[3]}:${match[4]}`)
+}
+
+/**
+ * A JSON list in the server directory, it's written directly while the server is stopped
+ */
+export abstract class PlayerList<T, TRaw> {
+  server: Server
+  fileName: string
+
+  constructor(server: Server, fileName: string) {
+    this.server = server
+    this.fileName = fileName
+  }
+
+  get path() {
+    return path.join(this.server.path, this.fileName)
+  }
+
+  /**
+   * Reads the entries of the list
+   * @throws {PlayerListError} If the file isn't a valid list
+   */
+  async list(): Promise<T[]> {
+    if (!existsSync(this.path)) return []
+    let raw: unknown
+    try {
+      raw = JSON.parse(await readFile(this.path, 'utf-8'))
+    } catch (err: any) {
+      throw new PlayerListError(`${this.fileName} is invalid. ${err.message}`)
+    }
+    if (!Array.isArray(raw))
+      throw new PlayerListError(`${this.fileName} isn't a list.`)
+    return raw.map(entry => this.parse(entry))
+  }
+
+  protected abstract parse(raw: TRaw): T
+  protected abstract serialize(entry: T): TRaw
+
+  protected async write(entries: T[]) {
+    const raw = entries.map(entry => this.serialize(entry))
+    await writeFile(this.path, JSON.stringify(raw, null, 2))
+  }
+
+  protected get running() {
+    return this.server.state === 'RUNNING'
+  }
+
+  /**
+   * Resolves a name with the server's profile resolver, using offline UUIDs when `online-mode` is off
+   * @throws {PlayerListError} If the player doesn't exist
+   */
+  protected async resolve(player: PlayerSource): Promise<IProfile> {
+    if (typeof player !== 'string')
+      return { uuid: formatUuid(player.uuid), name: player.name }
+    const online = await this.server.properties.get('online-mode')
+    const profile = await this.server.profileResolver.resolve(player, online)
+    if (!profile)
+      throw new PlayerListError(`Unable to find the player '${player}'.`)
+    return profile
+  }
+}
+
+/** Whether a profile has the name or UUID */
+function matches(profile: IProfile, player: string) {
+  return (
+    profile.name.toLowerCase() === player.toLowerCase() ||
+    profile.uuid.replace(/-/g, '') === player.replace(/-/g, '').toLowerCase()
+  )
+}
+
+/**
+ * `whitelist.json`, the server reloads it with `/whitelist reload` while it's running
+ */
+export class Whitelist extends PlayerList<IWhitelistEntry, IWhitelistEntry> {
+  constructor(server: Server) {
+    super(server, 'whitelist.json')
+  }
+
+  /**
+   * Gets a player by their name or UUID
+   */
+  async get(player: string) {
+    return (await this.list()).find(entry => matches(entry, player))
+  }
+
+  /**
+   * Adds a player to the whitelist, `white-list` must be enabled for it to be used
+   */
+  async add(player: PlayerSource) {
+    const profile = await this.resolve(player)
+    const entries = await this.list()
+    const existing = entries.find(entry => entry.uuid === profile.uuid)
+    if (existing) return existing
+    entries.push(profile)
+    await this.write(entries)
+    if (this.running) await this.server.execute('whitelist reload')
+    return profile
+  }
+
+  /**
+   * Removes a player by their name or UUID
+   * @returns Whether the player was whitelisted
+   */
+  async remove(player: string) {
+    const entries = await this.list()
+    const remaining = entries.filter(entry => !matches(entry, player))
+    if (remaining.length === entries.length) return false
+    await this.write(remaining)
+    if (this.running) await this.server.execute('whitelist reload')
+    return true
+  }
+
+  protected parse(raw: IWhitelistEntry) {
+    return { uuid: raw.uuid, name: raw.name }
+  }
+
+  protected serialize(entry: IWhitelistEntry) {
+    return { uuid: entry.uuid, name: entry.name }
+  }
+}
+
+/**
+ * `ops.json`, ops are changed with `/op` and `/deop` while the server is running
+ */
+export class Ops extends PlayerList<IOp, IOp> {
+  constructor(server: Server) {
+    super(server, 'ops.json')
+  }
+
+  /**
+   * Gets an op by their name or UUID
+   */
+  async get(player: string) {
+    return (await this.list()).find(entry => matches(entry, player))
+  }
+
+  /**
+   * Makes a player an op, an existing op is updated
+   *
+   * `/op` always uses `op-permission-level`, so the level and player limit bypass only apply while the server is stopped.
+   * @param options The level defaults to `op-permission-level`
+   * @throws {PlayerListError} If the level isn't between 1 and 4
+   */
+  async add(player: PlayerSource, options?: Partial<IOpOptions>) {
+    const defaultLevel = await this.server.properties.get('op-permission-level')
+    const { level, bypassesPlayerLimit } = {
+      level: defaultLevel,
+      bypassesPlayerLimit: false,
+      ...options
+    }
+    if (!Number.isInteger(level) || level < 1 || level > 4)
+      throw new PlayerListError(
+        `The op level must be between 1 and 4, got ${level}.`
+      )
+    const profile = await this.resolve(player)
+    const op: IOp = { ...profile, level, bypassesPlayerLimit }
+    if (this.running) {
+      if (level !== defaultLevel || bypassesPlayerLimit)
+        this.server.warn(
+          `The op level and player limit bypass of ${profile.name} can only be set while the server is stopped.`
+        )
+      await this.server.execute(`op ${profile.name}`)
+      return { ...op, level: defaultLevel, bypassesPlayerLimit: false }
+    }
+    const entries = (await this.list()).filter(
+      entry => entry.uuid !== profile.uuid
+    )
+    entries.push(op)
+    await this.write(entries)
+    return op
+  }
+
+  /**
+   * Removes an op by their name or UUID
+   * @returns Whether the player was an op
+   */
+  async remove(player: string) {
+    const entries = await this.list()
+    const op = entries.find(entry => matches(entry, player))
+    if (!op) return false
+    if (this.running) await this.server.execute(`deop ${op.name}`)
+    else await this.write(entries.filter(entry => entry !== op))
+    return true
+  }
+
+  protected parse(raw: IOp) {
+    return {
+      uuid: raw.uuid,
+      name: raw.name,
+      level: raw.level,
+      bypassesPlayerLimit: raw.bypassesPlayerLimit
+    }
+  }
+
+  protected serialize(entry: IOp) {
+    return this.parse(entry)
+  }
+}
+
+/** A ban as it's written in the ban lists */
+export interface IRawBanDetails {
+  created: string
+  source: string
+  /** A date or `forever` */
+  expires: string
+  reason: string
+}
+
+function parseBan(raw: IRawBanDetails): IBanDetails {
+  return {
+    created: parseBanDate(raw.created) || new Date(0),
+    source: raw.source,
+    expires: parseBanDate(raw.expires),
+    reason: raw.reason
+  }
+}
+
+function serializeBan(ban: IBanDetails): IRawBanDetails {
+  return {
+    created: formatBanDate(ban.created),
+    source: ban.source,
+    expires: ban.expires ? formatBanDate(ban.expires) : 'forever',
+    reason: ban.reason
+  }
+}
+
+function isActive(ban: IBanDetails) {
+  return !ban.expires || ban.expires.getTime() > Date.now()
+}
+
+/**
+ * `banned-players.json`, players are banned with `/ban` and `/pardon` while the server is running
+ */
+export class Bans extends PlayerList<IBan, IProfile & IRawBanDetails> {
+  constructor(server: Server) {
+    super(server, 'banned-players.json')
+  }
+
+  /**
+   * Gets the ban of a player by their name or UUID, expired bans are ignored
+   */
+  async get(player: string) {
+    return (await this.list()).find(
+      entry => matches(entry, player) && isActive(entry)
+    )
+  }
+
+  /**
+   * Bans a player, an existing ban is replaced
+   *
+   * `/ban` can't set an expiry, so temporary bans only apply while the server is stopped.
+   */
+  async add(player: PlayerSource, options?: Partial<IBanOptions>) {
+    const { reason, source, expires } = { ...DefaultBanOptions, ...options }
+    const profile = await this.resolve(player)
+    const ban: IBan = { ...profile, created: new Date(), source, reason }
+    if (this.running) {
+      if (expires)
+        this.server.warn(
+          `The ban of ${profile.name} can only expire if it's set while the server is stopped.`
+        )
+      await this.server.execute(`ban ${profile.name} ${reason}`)
+      return ban
+    }
+    if (expires) ban.expires = expires
+    const entries = (await this.list()).filter(
+      entry => entry.uuid !== profile.uuid
+    )
+    entries.push(ban)
+    await this.write(entries)
+    return ban
+  }
+
+  /**
+   * Unbans a player by their name or UUID
+   * @returns Whether the player was banned
+   */
+  async remove(player: string) {
+    const entries = await this.list()
+    const ban = entries.find(entry => matches(entry, player))
+    if (!ban) return false
+    if (this.running) await this.server.execute(`pardon ${ban.name}`)
+    else await this.write(entries.filter(entry => entry !== ban))
+    return true
+  }
+
+  protected parse(raw: IProfile & IRawBanDetails) {
+    return { uuid: raw.uuid, name: raw.name, ...parseBan(raw) }
+  }
+
+  protected serialize(entry: IBan) {
+    return { uuid: entry.uuid, name: entry.name, ...serializeBan(entry) }
+  }
+}
+
+/**
+ * `banned-ips.json`, addresses are banned with `/ban-ip` and `/pardon-ip` while the server is running
+ */
+export class IpBans extends PlayerList<
+  IIpBan,
+  { ip: string } & IRawBanDetails
+> {
+  constructor(server: Server) {
+    super(server, 'banned-ips.json')
+  }
+
+  /**
+   * Gets the ban of an address, expired bans are ignored
+   */
+  async get(ip: string) {
+    return (await this.list()).find(entry => entry.ip === ip && isActive(entry))
+  }
+
+  /**
+   * Bans an address, an existing ban is replaced
+   *
+   * `/ban-ip` can't set an expiry, so temporary bans only apply while the server is stopped.
+   * @throws {PlayerListError} If the address isn't valid
+   */
+  async add(ip: string, options?: Partial<IBanOptions>) {
+    if (!isIP(ip)) throw new PlayerListError(`'${ip}' isn't an IP address.`)
+    const { reason, source, expires } = { ...DefaultBanOptions, ...options }
+    const ban: IIpBan = { ip, created: new Date(), source, reason }
+    if (this.running) {
+      if (expires)
+        this.server.warn(
+          `The ban of ${ip} can only expire if it's set while the server is stopped.`
+        )
+      await this.server.execute(`ban-ip ${ip} ${reason}`)
+      return ban
+    }
+    if (expires) ban.expires = expires
+    const entries = (await this.list()).filter(entry => entry.ip !== ip)
+    entries.push(ban)
+    await this.write(entries)
+    return ban
+  }
+
+  /**
+   * Unbans an address
+   * @returns Whether the address was banned
+   */
+  async remove(ip: string) {
+    const entries = await this.list()
+    if (!entries.some(entry => entry.ip === ip)) return false
+    if (this.running) await this.server.execute(`pardon-ip ${ip}`)
+    else await this.write(entries.filter(entry => entry.ip !== ip))
+    return true
+  }
+
+  protected parse(raw: { ip: string } & IRawBanDetails) {
+    return { ip: raw.ip, ...parseBan(raw) }
+  }
+
+  protected serialize(entry: IIpBan) {
+    return { ip: entry.ip, ...serializeBan(entry) }
+  }
+}
+
+export class PlayerListError extends Error {}
@@ -0,0 +1,82 @@
+export interface IPlayer {
+  name: string
+  uuid?: string
+  /** The address the player connected from, without the port */
+  ip?: string
+  joinedAt: Date
+}
+
+export type PlayerEvent =
+  | { type: 'uuid'; name: string; uuid: string }
+  | { type: 'login'; name: string; ip: string }
+  | { type: 'join'; name: string }
+  | { type: 'leave'; name: string; reason: string }
+  | { type: 'chat'; name: string; message: string }
+  | { type: 'advancement'; name: string; advancement: string }
+  | { type: 'kick'; name: string; reason: string }
+  | { type: 'death'; name: string; message: string }
+
+/**
+ * Patterns for the player related messages printed by the server, names may have the `.` prefix used by Floodgate
+ */
+export const PlayerPatterns = {
+  /** `UUID of player Steve is 8667ba71-b85a-4004-af54-457a9734eed7` */
+  uuid: /^UUID of player (?<name>[\w.]{1,17}) is (?<uuid>[0-9a-f-]{32,36})$/i,
+  /** `Steve[/127.0.0.1:51234] logged in with entity id 250 at (0.5, 64.0, 0.5)` */
+  login:
+    /^(?<name>[\w.]{1,17})\[\/(?<address>[^\]]+)\] logged in with entity id/,
+  /** `Steve joined the game` */
+  join: /^(?<name>[\w.]{1,17}) joined the game$/,
+  /** `Steve lost connection: Disconnected` or `Steve left the game` */
+  leave:
+    /^(?<name>[\w.]{1,17})(?: \([^)]*\))? (?:lost connection: (?<reason>.*)|left the game)$/,
+  /** `<Steve> hello`, signed chat is prefixed with `[Not Secure]` when it can't be verified */
+  chat: /^(?:\[Not Secure\] )?<(?<name>[\w.]{1,17})> (?<message>.*)$/,
+  /** `Steve has made the advancement [Stone Age]`, older versions earn achievements */
+  advancement:
+    /^(?<name>[\w.]{1,17}) has (?:made the advancement|completed the challenge|reached the goal|just earned the achievement) \[(?<advancement>.+)\]$/,
+  /** `Kicked Steve: Kicked by an operator` */
+  kick: /^Kicked (?<name>[\w.]{1,17}): (?<reason>.*)$/,
+  /** `Steve was slain by Zombie`, only online players are checked since the messages are so varied */
+  death:
+    /^(?<name>[\w.]{1,17}) (?:was|were|died|drowned|blew up|hit the ground|fell|went (?:up in flames|off with a bang)|walked into|burned|tried to swim|experienced kinetic energy|froze|starved|suffocated|withered away|discovered the floor was lava|didn't want to live|left the confines of this world)\b/
+}
+
+/**
+ * Parses a player related message
+ * @param message The message without the time, thread and level prefix
+ * @param online Whether a player is online, death messages are only parsed for online players
+ */
+export function parsePlayerEvent(
+  message: string,
+  online: (name: string) => boolean = () => true
+): PlayerEvent | undefined {
+  let groups: Record<string, string> | undefined
+  if ((groups = message.match(PlayerPatterns.chat)?.groups))
+    return { type: 'chat', name: groups.name, message: groups.message }
+  if ((groups = message.match(PlayerPatterns.uuid)?.groups))
+    return { type: 'uuid', name: groups.name, uuid: groups.uuid }
+  if ((groups = message.match(PlayerPatterns.login)?.groups))
+    return {
+      type: 'login',
+      name: groups.name,
+      ip: groups.address.replace(/:\d+$/, '')
+    }
+  if ((groups = message.match(PlayerPatterns.join)?.groups))
+    return { type: 'join', name: groups.name }
+  if ((groups = message.match(PlayerPatterns.leave)?.groups))
+    return { type: 'leave', name: groups.name, reason: groups.reason || '' }
+  if ((groups = message.match(PlayerPatterns.advancement)?.groups))
+    return {
+      type: 'advancement',
+      name: groups.name,
+      advancement: groups.advancement
+    }
+  if ((groups = message.match(PlayerPatterns.kick)?.groups))
+    return { type: 'kick', name: groups.name, reason: groups.reason }
+  if (
+    (groups = message.match(PlayerPatterns.death)?.groups) &&
+    online(groups.name)
+  )
+    return { type: 'death', name: groups.name, message }
+}
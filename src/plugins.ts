@@ -0,0 +1,353 @@
+import { randomBytes } from 'crypto'
+import { existsSync } from 'fs'
+import { copyFile, mkdir, readdir, rename, unlink } from 'fs/promises'
+import path from 'path'
+import { download } from './request'
+import type { Server } from './servers/server'
+import { compareVersions } from './shared'
+import YamlConfig, { YamlValue } from './yamlConfig'
+import { readZipEntry } from './zip'
+
+export interface IPlugin {
+  name: string
+  version: string
+  /** The main class of the plugin */
+  main: string
+  description?: string
+  authors: string[]
+  /** Plugins that must be loaded before this plugin */
+  depend: string[]
+  /** Plugins that are loaded before this plugin if they're installed */
+  softdepend: string[]
+  /** Plugins that this plugin is loaded before */
+  loadbefore: string[]
+  /** The oldest server version the plugin supports, plugins without it are legacy plugins */
+  apiVersion?: string
+  /** The path of the jar */
+  file: string
+  /** Disabled plugins are in the disabled folder and aren't loaded */
+  enabled: boolean
+}
+
+export type PluginProblemType =
+  | 'invalid'
+  | 'duplicate'
+  | 'missing-dependency'
+  | 'circular-dependency'
+  | 'api-version'
+
+export interface IPluginProblem {
+  type: PluginProblemType
+  /** The name of the plugin, or the file name of an invalid jar */
+  plugin: string
+  message: string
+}
+
+export interface IPluginReport {
+  /** The enabled plugins */
+  plugins: IPlugin[]
+  /** The names of the plugins that can be loaded, in the order they're loaded */
+  order: string[]
+  problems: IPluginProblem[]
+}
+
+/**
+ * Manages the plugins of a spigot server, plugins are read from the `plugin.yml` in their jar
+ */
+export default class Plugins {
+  server: Server
+
+  /** The folder disabled plugins are moved to, inside the plugins folder */
+  static DisabledFolder = 'disabled'
+  static DescriptionFiles = ['plugin.yml', 'paper-plugin.yml']
+
+  constructor(server: Server) {
+    this.server = server
+  }
+
+  get path() {
+    return path.join(this.server.path, 'plugins')
+  }
+
+  get disabledPath() {
+    return path.join(this.path, Plugins.DisabledFolder)
+  }
+
+  /**
+   * Gets the installed plugins, jars without a valid `plugin.yml` are skipped
+   * @param disabled Whether to include disabled plugins
+   */
+  async list(disabled = false) {
+    const { plugins } = await this.#scan(this.path)
+    if (disabled) plugins.push(...(await this.#scan(this.disabledPath)).plugins)
+    return plugins
+  }
+
+  /**
+   * Gets a plugin by its name or file name
+   */
+  async get(name: string) {
+    const plugins = await this.list(true)
+    return (
+      plugins.find(plugin => plugin.name === name) ||
+      plugins.find(plugin => path.basename(plugin.file) === name)
+    )
+  }
+
+  /**
+   * Installs a plugin from a file or url, an installed plugin with the same name is replaced
+   * @param source The path or url of the jar
+   * @throws {PluginError} If the jar doesn't have a valid `plugin.yml`
+   */
+  async install(source: string) {
+    await mkdir(this.path, { recursive: true })
+    const isUrl = /^https?:\/\//i.test(source)
+    const fileName = path.basename(isUrl ? new URL(source).pathname : source)
+    const temp = path.join(
+      this.path,
+      `.${randomBytes(8).toString('hex')}.download`
+    )
+    try {
+      if (isUrl) await download(source, temp)
+      else await copyFile(source, temp)
+      const plugin = await Plugins.read(temp)
+      const existing = await this.get(plugin.name)
+      if (existing) await unlink(existing.file)
+      plugin.file = path.join(
+        this.path,
+        fileName.endsWith('.jar') ? fileName : `${plugin.name}.jar`
+      )
+      await rename(temp, plugin.file)
+      this.server.log(`Installed ${plugin.name} ${plugin.version}.`)
+      return plugin
+    } finally {
+      if (existsSync(temp)) await unlink(temp)
+    }
+  }
+
+  /**
+   * Deletes a plugin, its data folder is kept
+   * @returns Whether the plugin was installed
+   */
+  async remove(name: string) {
+    const plugin = await this.get(name)
+    if (!plugin) return false
+    await unlink(plugin.file)
+    return true
+  }
+
+  /**
+   * Moves a plugin to the disabled folder so it isn't loaded
+   * @returns Whether the plugin was enabled
+   */
+  async disable(name: string) {
+    const plugin = await this.get(name)
+    if (!plugin || !plugin.enabled) return false
+    await mkdir(this.disabledPath, { recursive: true })
+    await rename(
+      plugin.file,
+      path.join(this.disabledPath, path.basename(plugin.file))
+    )
+    return true
+  }
+
+  /**
+   * Moves a plugin out of the disabled folder
+   * @returns Whether the plugin was disabled
+   */
+  async enable(name: string) {
+    const plugin = await this.get(name)
+    if (!plugin || plugin.enabled) return false
+    await rename(plugin.file, path.join(this.path, path.basename(plugin.file)))
+    return true
+  }
+
+  /**
+   * Checks the enabled plugins for problems that stop them from loading and works out the order they load in
+   */
+  async check(): Promise<IPluginReport> {
+    const { plugins, invalid } = await this.#scan(this.path)
+    const problems: IPluginProblem[] = invalid.map(({ file, message }) => ({
+      type: 'invalid',
+      plugin: path.basename(file),
+      message: `'${path.basename(file)}' isn't a valid plugin. ${message}`
+    }))
+
+    //* The server only loads one of the plugins with the same name
+    const byName = new Map<string, IPlugin>()
+    for (const plugin of plugins) {
+      const other = byName.get(plugin.name)
+      if (!other) byName.set(plugin.name, plugin)
+      else
+        problems.push({
+          type: 'duplicate',
+          plugin: plugin.name,
+          message: `'${plugin.name}' is installed twice, '${path.basename(
+            other.file
+          )}' and '${path.basename(plugin.file)}'.`
+        })
+    }
+
+    const { version } = this.server
+    for (const plugin of byName.values())
+      if (
+        version &&
+        plugin.apiVersion &&
+        compareVersions(plugin.apiVersion, version) > 0
+      ) {
+        byName.delete(plugin.name)
+        problems.push({
+          type: 'api-version',
+          plugin: plugin.name,
+          message: `'${plugin.name}' needs api-version ${plugin.apiVersion} but the server is ${version}.`
+        })
+      }
+
+    //* Plugins that depend on a plugin that can't load can't load either
+    let removed = true
+    while (removed) {
+      removed = false
+      for (const plugin of byName.values()) {
+        const missing = plugin.depend.find(name => !byName.has(name))
+        if (!missing) continue
+        byName.delete(plugin.name)
+        removed = true
+        problems.push({
+          type: 'missing-dependency',
+          plugin: plugin.name,
+          message: plugins.some(other => other.name === missing)
+            ? `'${plugin.name}' depends on '${missing}' which can't be loaded.`
+            : `'${plugin.name}' depends on '${missing}' which isn't installed.`
+        })
+      }
+    }
+
+    const order = Plugins.sort([...byName.values()])
+    for (const name of byName.keys())
+      if (!order.includes(name))
+        problems.push({
+          type: 'circular-dependency',
+          plugin: name,
+          message: `'${name}' has a circular dependency.`
+        })
+
+    return { plugins, order, problems }
+  }
+
+  /** Reads the plugins in a folder */
+  async #scan(folder: string) {
+    const plugins: IPlugin[] = []
+    const invalid: { file: string; message: string }[] = []
+    if (!existsSync(folder)) return { plugins, invalid }
+    const files = (await readdir(folder, { withFileTypes: true }))
+      .filter(entry => entry.isFile() && entry.name.endsWith('.jar'))
+      .map(entry => path.join(folder, entry.name))
+      .sort()
+    for (const file of files) {
+      try {
+        plugins.push(await Plugins.read(file))
+      } catch (err: any) {
+        invalid.push({ file, message: err.message })
+      }
+    }
+    return { plugins, invalid }
+  }
+
+  /**
+   * Reads the `plugin.yml` of a jar
+   * @throws {PluginError} If the jar doesn't have a valid `plugin.yml`
+   */
+  static async read(file: string): Promise<IPlugin> {
+    let content: Buffer | undefined
+    try {
+      for (const name of Plugins.DescriptionFiles)
+        if ((content = await readZipEntry(file, name))) break
+    } catch (err: any) {
+      throw new PluginError(err.message)
+    }
+    if (!content) throw new PluginError("The jar doesn't have a plugin.yml.")
+    const lines = content.toString('utf-8').replace(/\r\n/g, '\n').split('\n')
+    const root = YamlConfig.parse(lines)
+    const get = (key: string) => root.children?.get(key)
+    //* Versions like `1.20` are read as numbers, so the text is used as written
+    const text = (key: string) => {
+      const node = get(key)
+      if (!node || node.value === null || typeof node.value === 'object') return
+      if (typeof node.value !== 'number' || !node.inline)
+        return String(node.value)
+      return lines[node.line].slice(...node.inline).trim()
+    }
+    const list = (value?: YamlValue) =>
+      Array.isArray(value)
+        ? value.map(item => String(item))
+        : value !== undefined && value !== null
+        ? [String(value)]
+        : []
+
+    const name = text('name')
+    const main = text('main')
+    if (!name || !main)
+      throw new PluginError("The plugin.yml doesn't have a name and main.")
+    return {
+      name,
+      version: text('version') || '',
+      main,
+      description: text('description'),
+      authors: [...list(get('author')?.value), ...list(get('authors')?.value)],
+      depend: list(get('depend')?.value),
+      softdepend: list(get('softdepend')?.value),
+      loadbefore: list(get('loadbefore')?.value),
+      apiVersion: text('api-version'),
+      file,
+      enabled: path.basename(path.dirname(file)) !== Plugins.DisabledFolder
+    }
+  }
+
+  /**
+   * Sorts plugins so each plugin loads after its dependencies, soft dependencies are ignored to break cycles
+   * @returns The names in load order, plugins in a cycle of hard dependencies are left out
+   */
+  static sort(plugins: IPlugin[]) {
+    const names = new Set(plugins.map(plugin => plugin.name))
+    const hard = new Map<string, string[]>()
+    const soft = new Map<string, string[]>()
+    for (const plugin of plugins) {
+      hard.set(
+        plugin.name,
+        plugin.depend.filter(name => names.has(name))
+      )
+      soft.set(plugin.name, [
+        ...plugin.softdepend.filter(name => names.has(name)),
+        ...plugins
+          .filter(other => other.loadbefore.includes(plugin.name))
+          .map(other => other.name)
+      ])
+    }
+    const order: string[] = []
+    const loaded = new Set<string>()
+    const remaining = [...names].sort()
+    const isLoaded = (name: string) => loaded.has(name)
+    while (remaining.length) {
+      const ready = remaining.filter(
+        name =>
+          (hard.get(name) || []).every(isLoaded) &&
+          (soft.get(name) || []).every(isLoaded)
+      )
+      //* Load one plugin at a time while breaking a cycle of soft dependencies
+      const next = ready.length
+        ? ready
+        : remaining
+            .filter(name => (hard.get(name) || []).every(isLoaded))
+            .slice(0, 1)
+      if (!next.length) break
+      for (const name of next) {
+        order.push(name)
+        loaded.add(name)
+        remaining.splice(remaining.indexOf(name), 1)
+      }
+    }
+    return order
+  }
+}
+
+export class PluginError extends Error {}
@@ -0,0 +1,102 @@
+import { createHash } from 'crypto'
+import { StatusError } from './request'
+
+export interface IProfile {
+  /** The UUID with dashes */
+  uuid: string
+  name: string
+}
+
+/**
+ * Resolves player names to profiles, servers use `ProfileResolver` unless it's replaced
+ */
+export interface IProfileResolver {
+  /**
+   * @param online Whether the server is in online mode, offline servers use UUIDs based on the name
+   * @returns The profile, or undefined if the player doesn't exist
+   */
+  resolve(name: string, online: boolean): Promise<IProfile | undefined>
+}
+
+export interface IProfileResolverOptions {
+  /** The url of the Mojang API, or of a server with the same API */
+  baseUrl: string
+  userAgent: string
+}
+
+/** Adds the dashes to a UUID */
+export function formatUuid(uuid: string) {
+  const hex = uuid.replace(/-/g, '').toLowerCase()
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20)
+  ].join('-')
+}
+
+/**
+ * Gets the UUID an offline mode server gives a player, a version 3 UUID of `OfflinePlayer:<name>`
+ */
+export function offlineUuid(name: string) {
+  const hash = createHash('md5').update(`OfflinePlayer:${name}`).digest()
+  hash[6] = (hash[6] & 0x0f) | 0x30
+  hash[8] = (hash[8] & 0x3f) | 0x80
+  return formatUuid(hash.toString('hex'))
+}
+
+/**
+ * Resolves names with the Mojang profile API, or locally for offline mode servers
+ *
+ * Profiles are cached, the base url can point at any server with the same API.
+ */
+export default class ProfileResolver implements IProfileResolver {
+  options: IProfileResolverOptions
+  #cache = new Map<string, IProfile | undefined>()
+
+  static DefaultOptions: IProfileResolverOptions = {
+    baseUrl: 'https://api.mojang.com',
+    userAgent: 'FFGFlash/MCServerJS'
+  }
+
+  static NamePattern = /^\w{1,16}$/
+
+  constructor(options?: Partial<IProfileResolverOptions>) {
+    this.options = Object.assign(
+      structuredClone(ProfileResolver.DefaultOptions),
+      options
+    )
+  }
+
+  async resolve(name: string, online = true) {
+    if (!online) return { uuid: offlineUuid(name), name }
+    if (!ProfileResolver.NamePattern.test(name)) return
+    const key = name.toLowerCase()
+    if (this.#cache.has(key)) return this.#cache.get(key)
+    const url = `${this.options.baseUrl.replace(
+      /\/$/,
+      ''
+    )}/users/profiles/minecraft/${encodeURIComponent(name)}`
+    const res = await fetch(url, {
+      headers: {
+        'User-Agent': this.options.userAgent,
+        'Accept': 'application/json'
+      }
+    })
+    let profile: IProfile | undefined
+    //* Unknown names respond with 204 or 404 depending on the API version
+    if (res.status !== 204 && res.status !== 404) {
+      if (!res.ok) throw new StatusError(res.status, res.statusText)
+      const data = (await res.json()) as { id: string; name: string }
+      profile = { uuid: formatUuid(data.id), name: data.name }
+    }
+    this.#cache.set(key, profile)
+    return profile
+  }
+
+  /** Forgets the cached profiles */
+  clearCache() {
+    this.#cache.clear()
+  }
+}
@@ -0,0 +1,184 @@
+import { createServer, Server as HttpServer } from 'http'
+import { AddressInfo } from 'net'
+import { ITickTimes } from './responses'
+import Server from './servers/server'
+import ServerManager from './serverManager'
+
+export interface IPrometheusOptions {
+  host: string
+  port: number
+  /** The path the metrics are served on */
+  path: string
+  /** Labels added to every metric */
+  labels: Record<string, string>
+}
+
+type MetricType = 'gauge' | 'counter'
+
+interface IMetricFamily {
+  name: string
+  samples: { labels: Record<string, string>; value: number }[]
+}
+
+/** The type and description of each metric */
+const MetricTypes: Record<string, [MetricType, string]> = {
+  mcserver_up: ['gauge', 'Whether the server is running'],
+  mcserver_info: ['gauge', 'The version of the server'],
+  mcserver_players: ['gauge', 'The players online'],
+  mcserver_lag_warnings_total: [
+    'counter',
+    "How many times the server couldn't keep up since it started"
+  ],
+  mcserver_skipped_ticks_total: [
+    'counter',
+    'How many ticks the server skipped since it started'
+  ],
+  mcserver_cpu_percent: [
+    'gauge',
+    'The CPU usage of the process, 100 is one core'
+  ],
+  mcserver_memory_bytes: ['gauge', 'The resident memory of the process'],
+  mcserver_uptime_seconds: ['gauge', 'How long the process has been running'],
+  mcserver_tps: ['gauge', 'The average ticks per second'],
+  mcserver_mspt: ['gauge', 'The milliseconds per tick']
+}
+
+/** The id used for a single server */
+const DEFAULT_ID = 'default'
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+/**
+ * Formats the latest metrics of servers in the Prometheus text format, each metric has a `server` label with the id of the server
+ * @param servers The ids and servers
+ * @param labels Labels added to every metric
+ */
+export function formatMetrics(
+  servers: [string, Server][],
+  labels: Record<string, string> = {}
+) {
+  const families = new Map<string, IMetricFamily>()
+  const add = (
+    name: string,
+    value: number | undefined,
+    sampleLabels: Record<string, string>
+  ) => {
+    if (value === undefined || !Number.isFinite(value)) return
+    let family = families.get(name)
+    if (!family) families.set(name, (family = { name, samples: [] }))
+    family.samples.push({ labels: { ...labels, ...sampleLabels }, value })
+  }
+
+  for (const [id, server] of servers) {
+    const base = { server: id }
+    const running = server.state === 'RUNNING'
+    add('mcserver_up', Number(running), base)
+    add('mcserver_info', 1, { ...base, version: server.version || '' })
+    if (!running) continue
+    const { metrics } = server
+    add('mcserver_players', server.players.length, base)
+    add('mcserver_lag_warnings_total', metrics.lagWarnings, base)
+    add('mcserver_skipped_ticks_total', metrics.skippedTicks, base)
+    const latest = metrics.latest
+    if (!latest) continue
+    add('mcserver_cpu_percent', latest.cpu, base)
+    add('mcserver_memory_bytes', latest.memory, base)
+    add('mcserver_uptime_seconds', latest.uptime, base)
+    if (latest.tps)
+      for (const [window, tps] of Object.entries(latest.tps))
+        add('mcserver_tps', tps, { ...base, window })
+    if (latest.mspt)
+      for (const [window, times] of Object.entries(latest.mspt))
+        for (const [stat, value] of Object.entries(times as ITickTimes))
+          add('mcserver_mspt', value, { ...base, window, stat })
+  }
+
+  const lines: string[] = []
+  for (const { name, samples } of families.values()) {
+    const [type, help] = MetricTypes[name]
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`)
+    for (const { labels, value } of samples) {
+      const text = Object.entries(labels)
+        .map(([key, label]) => `${key}="${escapeLabel(label)}"`)
+        .join(',')
+      lines.push(`${name}{${text}} ${value}`)
+    }
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Serves the metrics of a server or every server of a manager for Prometheus to scrape
+ */
+export default class PrometheusExporter {
+  target: Server | ServerManager
+  options: IPrometheusOptions
+  #http?: HttpServer
+
+  //* The metrics aren't protected, so they're only served locally by default
+  static DefaultOptions: IPrometheusOptions = {
+    host: '127.0.0.1',
+    port: 9225,
+    path: '/metrics',
+    labels: {}
+  }
+
+  constructor(
+    target: Server | ServerManager,
+    options?: Partial<IPrometheusOptions>
+  ) {
+    this.target = target
+    this.options = Object.assign(
+      structuredClone(PrometheusExporter.DefaultOptions),
+      options
+    )
+  }
+
+  /** Gets the metrics in the Prometheus text format */
+  format() {
+    const { target } = this
+    const servers: [string, Server][] =
+      target instanceof ServerManager
+        ? [...target.servers.entries()]
+        : [[DEFAULT_ID, target]]
+    return formatMetrics(servers, this.options.labels)
+  }
+
+  /**
+   * Starts serving the metrics
+   * @returns The address the metrics are served on
+   */
+  async listen() {
+    if (this.#http) return this.#http.address() as AddressInfo
+    const http = createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost')
+      if (req.method !== 'GET' || url.pathname !== this.options.path) {
+        res.writeHead(404).end()
+        return
+      }
+      res.writeHead(200, {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8'
+      })
+      res.end(this.format())
+    })
+    await new Promise<void>((resolve, reject) => {
+      http.once('error', reject)
+      http.listen(this.options.port, this.options.host, () => {
+        http.off('error', reject)
+        resolve()
+      })
+    })
+    this.#http = http
+    return http.address() as AddressInfo
+  }
+
+  /** Stops serving the metrics */
+  async close() {
+    const http = this.#http
+    if (!http) return
+    this.#http = undefined
+    await new Promise<void>(resolve => http.close(() => resolve()))
+  }
+}
@@ -1,6 +1,15 @@
 import { existsSync } from 'fs'
 import { readFile, writeFile } from 'fs/promises'
 import { EOL } from 'os'
+import {
+  IPropertySchema,
+  IServerProperties,
+  PropertyName,
+  PropertySchema
+} from './propertySchema'
+import { compareVersions } from './shared'
+
+export * from './propertySchema'
 
 export interface IProperty {
   name: string
@@ -9,15 +18,158 @@ export interface IProperty {
 
 export type PropertyData = IProperty | null | string
 
+export type PropertyValue = string | number | boolean
+
 export default class Properties {
   #data: PropertyData[] = []
-  static PropertyPattern = /^\s*(?!#)(.+)=(.*)$/i
+  /** The key ends at the first unescaped `=`, `:` or whitespace, like java's properties format */
+  static PropertyPattern =
+    /^\s*(?![#!])((?:\\.|[^\\:=\s])+)(?:\s*[:=]\s*|\s+|$)(.*)$/i
   static CommentPattern = /^#.+$/i
+  static Schema: Record<string, IPropertySchema> = PropertySchema
 
   path: string
+  /** The server version, used to determine which properties are supported */
+  version?: string
 
-  constructor(path: string) {
+  constructor(path: string, version?: string) {
     this.path = path
+    this.version = version
+  }
+
+  /**
+   * Gets the schema of a known property if the server version supports it
+   * @param name The name of the property
+   */
+  getSchema(name: string): IPropertySchema | undefined {
+    const schema = Properties.Schema[name]
+    if (!schema || !this.version) return schema
+    if (schema.since && compareVersions(this.version, schema.since) < 0) return
+    if (schema.until && compareVersions(this.version, schema.until) >= 0) return
+    return schema
+  }
+
+  /** The known properties supported by the server version */
+  get keys() {
+    return Object.keys(Properties.Schema).filter(name =>
+      this.getSchema(name)
+    ) as PropertyName[]
+  }
+
+  /** The default values of the known properties supported by the server version */
+  get defaults() {
+    return this.keys.reduce<Partial<IServerProperties>>(
+      (defaults, name) =>
+        Object.assign(defaults, { [name]: Properties.Schema[name].default }),
+      {}
+    )
+  }
+
+  /**
+   * Validates a value against the schema of a property
+   * @param name The name of the property
+   * @param value The typed value or the raw string from `server.properties`
+   * @returns The typed value
+   * @throws {PropertyError} If the value is invalid or the property isn't supported by the server version
+   */
+  validate<K extends PropertyName>(
+    name: K,
+    value: PropertyValue
+  ): IServerProperties[K]
+  validate(name: string, value: PropertyValue): PropertyValue
+  validate(name: string, value: PropertyValue): PropertyValue {
+    const schema = this.getSchema(name)
+    if (!schema) {
+      if (Properties.Schema[name])
+        throw new PropertyError(
+          name,
+          value,
+          `'${name}' isn't supported by version ${this.version}`
+        )
+      return String(value)
+    }
+
+    if (schema.type === 'boolean') {
+      if (typeof value === 'boolean') return value
+      const raw = String(value).trim().toLowerCase()
+      if (raw === 'true' || raw === 'false') return raw === 'true'
+      throw new PropertyError(name, value, `'${name}' must be true or false`)
+    }
+
+    if (schema.type === 'number') {
+      const num =
+        typeof value === 'number'
+          ? value
+          : String(value).trim() === ''
+          ? NaN
+          : Number(value)
+      if (!Number.isInteger(num))
+        throw new PropertyError(name, value, `'${name}' must be a whole number`)
+      if (
+        (schema.min !== undefined && num < schema.min) ||
+        (schema.max !== undefined && num > schema.max)
+      )
+        throw new PropertyError(
+          name,
+          value,
+          `'${name}' must be between ${schema.min ?? '-∞'} and ${
+            schema.max ?? '∞'
+          }`
+        )
+      return num
+    }
+
+    if (schema.type === 'enum') {
+      const raw = String(value).trim().toLowerCase()
+      //* Older versions store the index of the value
+      const index = /^\d+$/.test(raw) ? Number(raw) : schema.values.indexOf(raw)
+      const result = schema.values[index]
+      if (result === undefined)
+        throw new PropertyError(
+          name,
+          value,
+          `'${name}' must be one of ${schema.values.join(', ')}`
+        )
+      return result
+    }
+
+    if (typeof value !== 'string')
+      throw new PropertyError(name, value, `'${name}' must be a string`)
+    return value
+  }
+
+  /**
+   * Converts a value to the string stored in `server.properties`
+   * @param name The name of the property
+   * @param value The value of the property
+   */
+  serialize(name: string, value: PropertyValue) {
+    const valid = this.validate(name, value)
+    const schema = this.getSchema(name)
+    if (
+      schema?.type === 'enum' &&
+      schema.named &&
+      this.version &&
+      compareVersions(this.version, schema.named) < 0
+    )
+      return String(schema.values.indexOf(String(valid)))
+    if (schema?.type === 'string') return Properties.escape(String(valid))
+    return String(valid)
+  }
+
+  /**
+   * Parses a value read from `server.properties`
+   * @param name The name of the property
+   * @param raw The raw value
+   */
+  parse<K extends PropertyName>(name: K, raw: string): IServerProperties[K]
+  parse(name: string, raw: string): PropertyValue
+  parse(name: string, raw: string): PropertyValue {
+    const schema = this.getSchema(name)
+    if (!schema) return raw
+    const value = Properties.unescape(raw)
+    if (schema.type === 'string') return value
+    return this.validate(name, value)
   }
 
   async loadProperties() {
@@ -31,6 +183,34 @@ export default class Properties {
     })
   }
 
+  /**
+   * Gets the typed value of a property, known properties that are missing return their default value
+   * @param name The name of the property
+   */
+  async get<K extends PropertyName>(name: K): Promise<IServerProperties[K]>
+  async get(name: string): Promise<PropertyValue | undefined>
+  async get(name: string): Promise<PropertyValue | undefined> {
+    const prop = await this.getProperty(name)
+    if (prop) return this.parse(name, prop.value)
+    return this.getSchema(name)?.default
+  }
+
+  /**
+   * Validates and sets the value of a property
+   * @param name The name of the property
+   * @param value The new value of the property
+   * @throws {PropertyError} If the value is invalid
+   */
+  async set<K extends PropertyName>(
+    name: K,
+    value: IServerProperties[K]
+  ): Promise<IServerProperties[K]>
+  async set(name: string, value: PropertyValue): Promise<PropertyValue>
+  async set(name: string, value: PropertyValue): Promise<PropertyValue> {
+    await this.setProperties([{ name, value: this.serialize(name, value) }])
+    return this.validate(name, value)
+  }
+
   async getProperty(name: string) {
     const properties = await this.getProperties()
     return properties.find(prop => prop.name === name)
@@ -49,11 +229,29 @@ export default class Properties {
     return properties.find(prop => prop.name === name)
   }
 
+  /**
+   * Validates and writes raw property values, properties that don't exist yet are appended
+   * @throws {PropertyError} If a value is invalid, nothing is written
+   */
   async setProperties(properties: IProperty[]) {
+    properties.forEach(({ name, value }) => this.validate(name, value))
+    await this.getProperties()
     const newData = this.#data.map(line => {
       if (!line || typeof line === 'string') return line
       return properties.find(prop => prop.name === line.name) || line
     })
+    //* Keep the trailing empty line at the end of the file
+    const end =
+      newData.length && newData[newData.length - 1] === null
+        ? newData.length - 1
+        : newData.length
+    const added = properties.filter(
+      prop =>
+        !newData.some(
+          line => typeof line === 'object' && line?.name === prop.name
+        )
+    )
+    newData.splice(end, 0, ...added)
     const content = newData
       .map<string>(line => {
         if (!line) line = ''
@@ -67,4 +265,38 @@ export default class Properties {
       (line): line is IProperty => line !== null && typeof line !== 'string'
     )
   }
+
+  static escape(value: string) {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/([:=#!])/g, '\\$1')
+      .replace(/[^\x20-\x7e]/g, char =>
+        char === '\n'
+          ? '\\n'
+          : `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+      )
+  }
+
+  static unescape(value: string) {
+    return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, char: string) =>
+      char.length > 1
+        ? String.fromCharCode(parseInt(char.slice(1), 16))
+        : char === 'n'
+        ? '\n'
+        : char === 't'
+        ? '\t'
+        : char
+    )
+  }
+}
+
+export class PropertyError extends Error {
+  property: string
+  value: unknown
+
+  constructor(property: string, value: unknown, message: string) {
+    super(`Invalid Property: ${message}, got '${value}'.`)
+    this.property = property
+    this.value = value
+  }
 }
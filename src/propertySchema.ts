@@ -0,0 +1,232 @@
+export type Difficulty = 'peaceful' | 'easy' | 'normal' | 'hard'
+
+export type GameMode = 'survival' | 'creative' | 'adventure' | 'spectator'
+
+export interface IServerProperties {
+  'accepts-transfers': boolean
+  'allow-flight': boolean
+  'allow-nether': boolean
+  'announce-player-achievements': boolean
+  'broadcast-console-to-ops': boolean
+  'broadcast-rcon-to-ops': boolean
+  'difficulty': Difficulty
+  'enable-command-block': boolean
+  'enable-jmx-monitoring': boolean
+  'enable-query': boolean
+  'enable-rcon': boolean
+  'enable-status': boolean
+  'enforce-secure-profile': boolean
+  'enforce-whitelist': boolean
+  'entity-broadcast-range-percentage': number
+  'force-gamemode': boolean
+  'function-permission-level': number
+  'gamemode': GameMode
+  'generate-structures': boolean
+  'generator-settings': string
+  'hardcore': boolean
+  'hide-online-players': boolean
+  'initial-disabled-packs': string
+  'initial-enabled-packs': string
+  'level-name': string
+  'level-seed': string
+  'level-type': string
+  'log-ips': boolean
+  'max-chained-neighbor-updates': number
+  'max-players': number
+  'max-tick-time': number
+  'max-world-size': number
+  'motd': string
+  'network-compression-threshold': number
+  'online-mode': boolean
+  'op-permission-level': number
+  'player-idle-timeout': number
+  'prevent-proxy-connections': boolean
+  'previews-chat': boolean
+  'pvp': boolean
+  'query.port': number
+  'rate-limit': number
+  'rcon.password': string
+  'rcon.port': number
+  'require-resource-pack': boolean
+  'resource-pack': string
+  'resource-pack-prompt': string
+  'resource-pack-sha1': string
+  'server-ip': string
+  'server-port': number
+  'simulation-distance': number
+  'snooper-enabled': boolean
+  'spawn-animals': boolean
+  'spawn-monsters': boolean
+  'spawn-npcs': boolean
+  'spawn-protection': number
+  'sync-chunk-writes': boolean
+  'text-filtering-config': string
+  'use-native-transport': boolean
+  'view-distance': number
+  'white-list': boolean
+}
+
+export type PropertyName = keyof IServerProperties
+
+interface IPropertySchemaBase<T> {
+  default: T
+  /** The first version the property was added in */
+  since?: string
+  /** The version the property was removed in */
+  until?: string
+}
+
+export interface IStringPropertySchema extends IPropertySchemaBase<string> {
+  type: 'string'
+}
+
+export interface INumberPropertySchema extends IPropertySchemaBase<number> {
+  type: 'number'
+  min?: number
+  max?: number
+}
+
+export interface IBooleanPropertySchema extends IPropertySchemaBase<boolean> {
+  type: 'boolean'
+}
+
+export interface IEnumPropertySchema<T extends string = string>
+  extends IPropertySchemaBase<T> {
+  type: 'enum'
+  values: readonly T[]
+  /** Versions before this one store the index of the value instead of its name */
+  named?: string
+}
+
+export type IPropertySchema<T = unknown> = [T] extends [boolean]
+  ? IBooleanPropertySchema
+  : [T] extends [number]
+  ? INumberPropertySchema
+  : [T] extends [string]
+  ? IStringPropertySchema | IEnumPropertySchema<T>
+  :
+      | IStringPropertySchema
+      | INumberPropertySchema
+      | IBooleanPropertySchema
+      | IEnumPropertySchema
+
+export type PropertySchemas = {
+  [K in PropertyName]: IPropertySchema<IServerProperties[K]>
+}
+
+const MAX_INT = 2147483647
+
+/** The vanilla `server.properties` keys */
+export const PropertySchema: PropertySchemas = {
+  'accepts-transfers': { type: 'boolean', default: false, since: '1.20.5' },
+  'allow-flight': { type: 'boolean', default: false },
+  'allow-nether': { type: 'boolean', default: true },
+  'announce-player-achievements': {
+    type: 'boolean',
+    default: true,
+    until: '1.12'
+  },
+  'broadcast-console-to-ops': { type: 'boolean', default: true },
+  'broadcast-rcon-to-ops': { type: 'boolean', default: true },
+  'difficulty': {
+    type: 'enum',
+    values: ['peaceful', 'easy', 'normal', 'hard'],
+    default: 'easy',
+    named: '1.14'
+  },
+  'enable-command-block': { type: 'boolean', default: false },
+  'enable-jmx-monitoring': { type: 'boolean', default: false, since: '1.16' },
+  'enable-query': { type: 'boolean', default: false },
+  'enable-rcon': { type: 'boolean', default: false },
+  'enable-status': { type: 'boolean', default: true, since: '1.16' },
+  'enforce-secure-profile': { type: 'boolean', default: true, since: '1.19' },
+  'enforce-whitelist': { type: 'boolean', default: false },
+  'entity-broadcast-range-percentage': {
+    type: 'number',
+    default: 100,
+    min: 10,
+    max: 1000,
+    since: '1.16'
+  },
+  'force-gamemode': { type: 'boolean', default: false },
+  'function-permission-level': {
+    type: 'number',
+    default: 2,
+    min: 1,
+    max: 4,
+    since: '1.14.4'
+  },
+  'gamemode': {
+    type: 'enum',
+    values: ['survival', 'creative', 'adventure', 'spectator'],
+    default: 'survival',
+    named: '1.14'
+  },
+  'generate-structures': { type: 'boolean', default: true },
+  'generator-settings': { type: 'string', default: '' },
+  'hardcore': { type: 'boolean', default: false },
+  'hide-online-players': { type: 'boolean', default: false, since: '1.18' },
+  'initial-disabled-packs': { type: 'string', default: '', since: '1.19.3' },
+  'initial-enabled-packs': {
+    type: 'string',
+    default: 'vanilla',
+    since: '1.19.3'
+  },
+  'level-name': { type: 'string', default: 'world' },
+  'level-seed': { type: 'string', default: '' },
+  'level-type': { type: 'string', default: 'minecraft:normal' },
+  'log-ips': { type: 'boolean', default: true, since: '1.20.2' },
+  'max-chained-neighbor-updates': {
+    type: 'number',
+    default: 1000000,
+    since: '1.19'
+  },
+  'max-players': { type: 'number', default: 20, min: 0, max: MAX_INT },
+  'max-tick-time': { type: 'number', default: 60000, min: -1 },
+  'max-world-size': {
+    type: 'number',
+    default: 29999984,
+    min: 1,
+    max: 29999984
+  },
+  'motd': { type: 'string', default: 'A Minecraft Server' },
+  'network-compression-threshold': { type: 'number', default: 256, min: -1 },
+  'online-mode': { type: 'boolean', default: true },
+  'op-permission-level': { type: 'number', default: 4, min: 0, max: 4 },
+  'player-idle-timeout': { type: 'number', default: 0, min: 0 },
+  'prevent-proxy-connections': { type: 'boolean', default: false },
+  'previews-chat': {
+    type: 'boolean',
+    default: false,
+    since: '1.19',
+    until: '1.19.3'
+  },
+  'pvp': { type: 'boolean', default: true },
+  'query.port': { type: 'number', default: 25565, min: 1, max: 65535 },
+  'rate-limit': { type: 'number', default: 0, min: 0 },
+  'rcon.password': { type: 'string', default: '' },
+  'rcon.port': { type: 'number', default: 25575, min: 1, max: 65535 },
+  'require-resource-pack': { type: 'boolean', default: false, since: '1.17' },
+  'resource-pack': { type: 'string', default: '' },
+  'resource-pack-prompt': { type: 'string', default: '', since: '1.17' },
+  'resource-pack-sha1': { type: 'string', default: '' },
+  'server-ip': { type: 'string', default: '' },
+  'server-port': { type: 'number', default: 25565, min: 1, max: 65535 },
+  'simulation-distance': {
+    type: 'number',
+    default: 10,
+    min: 3,
+    max: 32,
+    since: '1.18'
+  },
+  'snooper-enabled': { type: 'boolean', default: true, until: '1.18' },
+  'spawn-animals': { type: 'boolean', default: true },
+  'spawn-monsters': { type: 'boolean', default: true },
+  'spawn-npcs': { type: 'boolean', default: true },
+  'spawn-protection': { type: 'number', default: 16, min: 0 },
+  'sync-chunk-writes': { type: 'boolean', default: true, since: '1.16' },
+  'text-filtering-config': { type: 'string', default: '', since: '1.17' },
+  'use-native-transport': { type: 'boolean', default: true },
+  'view-distance': { type: 'number', default: 10, min: 2, max: 32 },
+  'white-list': { type: 'boolean', default: false }
+}
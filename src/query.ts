@@ -0,0 +1,168 @@
+import { randomBytes } from 'crypto'
+import { createSocket, Socket } from 'dgram'
+import { isIPv6 } from 'net'
+
+export interface IQueryOptions {
+  host: string
+  /** The `query.port` of the server */
+  port: number
+  /** How long to wait for each response in milliseconds */
+  timeout: number
+}
+
+export interface IQueryResponse {
+  motd: string
+  gameType: string
+  gameId: string
+  version: string
+  /** The server software, e.g. `CraftBukkit on Bukkit 1.20.1-R0.1-SNAPSHOT` */
+  software?: string
+  plugins: string[]
+  map: string
+  online: number
+  max: number
+  host: string
+  port: number
+  players: string[]
+  /** The round trip time of the handshake in milliseconds */
+  latency: number
+}
+
+export const DefaultQueryOptions: IQueryOptions = {
+  host: '127.0.0.1',
+  port: 25565,
+  timeout: 5000
+}
+
+const PacketType = {
+  STAT: 0x00,
+  HANDSHAKE: 0x09
+}
+
+/**
+ * Gets the full stat of a server with the GameSpy4 query protocol, `enable-query` must be set in `server.properties`
+ * @throws {QueryError} If the server doesn't respond in time
+ */
+export async function query(options?: Partial<IQueryOptions>) {
+  const { host, port, timeout } = { ...DefaultQueryOptions, ...options }
+  const socket = createSocket(isIPv6(host) ? 'udp6' : 'udp4')
+  //* The server ignores the upper bits of each byte of the session id
+  const sessionId = randomBytes(4).readInt32BE() & 0x0f0f0f0f
+  const request = (type: number, payload = Buffer.alloc(0)) => {
+    const packet = Buffer.alloc(7 + payload.length)
+    packet.writeUInt16BE(0xfefd, 0)
+    packet.writeUInt8(type, 2)
+    packet.writeInt32BE(sessionId, 3)
+    payload.copy(packet, 7)
+    return send(
+      socket,
+      packet,
+      host,
+      port,
+      timeout,
+      response => response[0] === type && response.readInt32BE(1) === sessionId
+    )
+  }
+
+  try {
+    const start = Date.now()
+    const handshake = await request(PacketType.HANDSHAKE)
+    const latency = Date.now() - start
+    const token = Number(readStrings(handshake, 5)[0])
+    if (isNaN(token)) throw new QueryError('The challenge token is malformed.')
+
+    //* The padding after the token requests the full stat instead of the basic stat
+    const payload = Buffer.alloc(8)
+    payload.writeInt32BE(token, 0)
+    const stat = await request(PacketType.STAT, payload)
+
+    //* Skip the header and the `splitnum\0\x80\0` padding
+    const strings = readStrings(stat, 16)
+    const values: Record<string, string> = {}
+    let index = 0
+    for (; index < strings.length && strings[index]; index += 2)
+      values[strings[index]] = strings[index + 1] ?? ''
+    //* The players follow the `\x01player_\0` padding
+    const players = strings.slice(index + 2).filter(name => !!name)
+
+    const plugins = values.plugins || ''
+    const separator = plugins.indexOf(': ')
+    return {
+      motd: values.hostname || '',
+      gameType: values.gametype || '',
+      gameId: values.game_id || '',
+      version: values.version || '',
+      software:
+        (separator === -1 ? plugins : plugins.slice(0, separator)) || undefined,
+      plugins:
+        separator === -1
+          ? []
+          : plugins
+              .slice(separator + 2)
+              .split('; ')
+              .filter(plugin => !!plugin),
+      map: values.map || '',
+      online: Number(values.numplayers) || 0,
+      max: Number(values.maxplayers) || 0,
+      host: values.hostip || '',
+      port: Number(values.hostport) || port,
+      players,
+      latency
+    } as IQueryResponse
+  } finally {
+    socket.close()
+  }
+}
+
+/** Splits the null terminated strings of a packet */
+function readStrings(buffer: Buffer, offset: number) {
+  const strings: string[] = []
+  while (offset < buffer.length) {
+    let end = buffer.indexOf(0, offset)
+    if (end === -1) end = buffer.length
+    strings.push(buffer.toString('utf-8', offset, end))
+    offset = end + 1
+  }
+  return strings
+}
+
+/**
+ * Sends a packet and resolves with the first response accepted by the filter
+ */
+function send(
+  socket: Socket,
+  packet: Buffer,
+  host: string,
+  port: number,
+  timeout: number,
+  filter: (response: Buffer) => boolean
+) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const done = (err?: Error, response?: Buffer) => {
+      clearTimeout(timer)
+      socket.off('message', onMessage)
+      socket.off('error', onError)
+      if (err) reject(err)
+      else resolve(response as Buffer)
+    }
+    const onMessage = (response: Buffer) => {
+      if (response.length >= 5 && filter(response)) done(undefined, response)
+    }
+    const onError = (err: Error) =>
+      done(new QueryError(`Unable to query ${host}:${port}. ${err.message}`))
+    const timer = setTimeout(
+      () =>
+        done(
+          new QueryError(
+            `${host}:${port} did not respond in time, is query enabled?`
+          )
+        ),
+      timeout
+    )
+    socket.on('message', onMessage)
+    socket.on('error', onError)
+    socket.send(packet, port, host, err => err && onError(err))
+  })
+}
+
+export class QueryError extends Error {}
@@ -0,0 +1,300 @@
+import EventEmitter from 'events'
+import { createConnection, Socket } from 'net'
+
+export interface IRconOptions {
+  host: string
+  port: number
+  password: string
+  /** How long to wait for a response in milliseconds */
+  timeout: number
+  /** Whether to reconnect when the connection is lost */
+  reconnect: boolean
+  /** The delay before the first reconnect attempt in milliseconds, doubled for every attempt */
+  reconnectDelay: number
+  maxReconnectDelay: number
+}
+
+export interface IRconPacket {
+  id: number
+  type: number
+  body: string
+}
+
+export interface RconEvents {
+  connect: () => void
+  close: (hadError: boolean) => void
+  error: (err: Error) => void
+  reconnecting: (attempt: number, delay: number) => void
+}
+
+export interface Rcon {
+  on<U extends keyof RconEvents>(event: U, listener: RconEvents[U]): this
+  once<U extends keyof RconEvents>(event: U, listener: RconEvents[U]): this
+  emit<U extends keyof RconEvents>(
+    event: U,
+    ...args: Parameters<RconEvents[U]>
+  ): boolean
+}
+
+interface IRconRequest {
+  id: number
+  /** The id of the empty packet sent after the command, its response marks the end of the command's response */
+  end: number
+  chunks: string[]
+  resolve: (body: string) => void
+  reject: (err: Error) => void
+  timer: NodeJS.Timeout
+}
+
+export class Rcon extends EventEmitter {
+  options: IRconOptions
+  #socket?: Socket
+  #buffer = Buffer.alloc(0)
+  #requestId = 0
+  #requests = new Map<number, IRconRequest>()
+  #connecting?: Promise<void>
+  #closed = true
+  #reconnectAttempt = 0
+  #reconnectTimer?: NodeJS.Timeout
+
+  static PacketType = {
+    RESPONSE: 0,
+    COMMAND: 2,
+    AUTH_RESPONSE: 2,
+    AUTH: 3
+  }
+
+  static DefaultOptions: IRconOptions = {
+    host: '127.0.0.1',
+    port: 25575,
+    password: '',
+    timeout: 5000,
+    reconnect: true,
+    reconnectDelay: 1000,
+    maxReconnectDelay: 30000
+  }
+
+  constructor(options?: Partial<IRconOptions>) {
+    super()
+    this.options = Object.assign(structuredClone(Rcon.DefaultOptions), options)
+  }
+
+  /**
+   * Connects and authenticates with the server
+   * @throws {RconError} If the password is rejected or the server can't be reached
+   */
+  connect() {
+    this.#closed = false
+    clearTimeout(this.#reconnectTimer)
+    if (this.#connecting) return this.#connecting
+    if (this.connected) return Promise.resolve()
+    this.#connecting = this.#connect().finally(
+      () => (this.#connecting = undefined)
+    )
+    return this.#connecting
+  }
+
+  /**
+   * Sends a command and resolves with the response, responses split over multiple packets are joined
+   * @param command The command without a leading slash
+   */
+  async execute(command: string) {
+    if (this.#connecting) await this.#connecting
+    const socket = this.#socket
+    if (!socket || !this.connected)
+      throw new RconError('The rcon client is not connected.')
+    const id = this.#nextId()
+    const end = this.#nextId()
+    return new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.#requests.delete(end)
+        reject(new RconError(`The command '${command}' timed out.`))
+      }, this.options.timeout)
+      this.#requests.set(end, { id, end, chunks: [], resolve, reject, timer })
+      socket.write(
+        Rcon.encode({ id, type: Rcon.PacketType.COMMAND, body: command })
+      )
+      socket.write(
+        Rcon.encode({ id: end, type: Rcon.PacketType.RESPONSE, body: '' })
+      )
+    })
+  }
+
+  /** Closes the connection without reconnecting */
+  async close() {
+    this.#closed = true
+    clearTimeout(this.#reconnectTimer)
+    const socket = this.#socket
+    if (!socket) return
+    await new Promise<void>(resolve => {
+      socket.once('close', () => resolve())
+      socket.end()
+    })
+  }
+
+  get connected() {
+    return !!this.#socket && !this.#connecting && !this.#socket.destroyed
+  }
+
+  async #connect() {
+    const { host, port, password, timeout } = this.options
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const socket = createConnection({ host, port })
+      const timer = setTimeout(() => {
+        socket.destroy()
+        reject(new RconError(`Unable to connect to ${host}:${port}.`))
+      }, timeout)
+      socket.once('connect', () => {
+        clearTimeout(timer)
+        socket.removeListener('error', reject)
+        resolve(socket)
+      })
+      socket.once('error', err => {
+        clearTimeout(timer)
+        reject(
+          new RconError(`Unable to connect to ${host}:${port}. ${err.message}`)
+        )
+      })
+    })
+
+    socket.setNoDelay(true)
+    this.#buffer = Buffer.alloc(0)
+    this.#socket = socket
+
+    const auth = new Promise<void>((resolve, reject) => {
+      const id = this.#nextId()
+      const timer = setTimeout(() => {
+        reject(
+          new RconError('The rcon server did not respond to authentication.')
+        )
+      }, timeout)
+      this.#requests.set(id, {
+        id,
+        end: id,
+        chunks: [],
+        timer,
+        resolve: () => resolve(),
+        reject
+      })
+      socket.write(
+        Rcon.encode({ id, type: Rcon.PacketType.AUTH, body: password })
+      )
+    })
+
+    socket.on('data', data => this.#receive(data))
+    socket.on('error', err => this.emit('error', err))
+    socket.on('close', hadError => this.#onClose(socket, hadError))
+
+    try {
+      await auth
+    } catch (err) {
+      this.#closed = true
+      socket.destroy()
+      throw err
+    }
+    this.#reconnectAttempt = 0
+    this.emit('connect')
+  }
+
+  #receive(data: Buffer) {
+    this.#buffer = Buffer.concat([this.#buffer, data])
+    let packet
+    while ((packet = Rcon.decode(this.#buffer))) {
+      this.#buffer = this.#buffer.subarray(packet.length)
+      this.#handle(packet.packet)
+    }
+  }
+
+  #handle({ id, type, body }: IRconPacket) {
+    //* A failed authentication responds with an id of -1
+    if (id === -1) {
+      const auth = [...this.#requests.values()].find(req => req.id === req.end)
+      if (auth) {
+        this.#settle(auth)
+        auth.reject(new RconError('The rcon password was rejected.'))
+      }
+      return
+    }
+    const end = this.#requests.get(id)
+    if (end && end.id === end.end) {
+      //* Some servers send an empty response before the authentication response
+      if (type !== Rcon.PacketType.AUTH_RESPONSE) return
+      this.#settle(end)
+      return end.resolve('')
+    }
+    if (end) {
+      this.#settle(end)
+      return end.resolve(end.chunks.join(''))
+    }
+    const request = [...this.#requests.values()].find(req => req.id === id)
+    request?.chunks.push(body)
+  }
+
+  #settle(request: IRconRequest) {
+    clearTimeout(request.timer)
+    this.#requests.delete(request.end)
+  }
+
+  #onClose(socket: Socket, hadError: boolean) {
+    if (this.#socket !== socket) return
+    this.#socket = undefined
+    for (const request of this.#requests.values()) {
+      this.#settle(request)
+      request.reject(new RconError('The rcon connection was closed.'))
+    }
+    this.emit('close', hadError)
+    if (!this.#closed && this.options.reconnect) this.#scheduleReconnect()
+  }
+
+  #scheduleReconnect() {
+    const { reconnectDelay, maxReconnectDelay } = this.options
+    const attempt = ++this.#reconnectAttempt
+    const delay = Math.min(
+      reconnectDelay * 2 ** (attempt - 1),
+      maxReconnectDelay
+    )
+    this.emit('reconnecting', attempt, delay)
+    this.#reconnectTimer = setTimeout(() => {
+      if (this.#closed) return
+      this.connect().catch(err => {
+        this.emit('error', err)
+        if (!this.#closed) this.#scheduleReconnect()
+      })
+    }, delay)
+  }
+
+  #nextId() {
+    this.#requestId = (this.#requestId % 0x7fffffff) + 1
+    return this.#requestId
+  }
+
+  static encode({ id, type, body }: IRconPacket) {
+    const content = Buffer.from(body, 'utf-8')
+    const packet = Buffer.alloc(14 + content.length)
+    packet.writeInt32LE(10 + content.length, 0)
+    packet.writeInt32LE(id, 4)
+    packet.writeInt32LE(type, 8)
+    content.copy(packet, 12)
+    return packet
+  }
+
+  /**
+   * Decodes the first packet in a buffer
+   * @returns The packet and the number of bytes it used, or undefined if the packet is incomplete
+   */
+  static decode(buffer: Buffer) {
+    if (buffer.length < 4) return
+    const size = buffer.readInt32LE(0)
+    if (buffer.length < size + 4) return
+    const packet: IRconPacket = {
+      id: buffer.readInt32LE(4),
+      type: buffer.readInt32LE(8),
+      body: buffer.toString('utf-8', 12, size + 2)
+    }
+    return { packet, length: size + 4 }
+  }
+}
+
+export class RconError extends Error {}
+
+export default Rcon
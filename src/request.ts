@@ -1,7 +1,13 @@
-import { createWriteStream } from 'fs'
-import { unlink } from 'fs/promises'
-import http, { RequestOptions } from 'http'
+import { createHash } from 'crypto'
+import { createReadStream, createWriteStream, existsSync } from 'fs'
+import { readFile, rename, stat, unlink, writeFile } from 'fs/promises'
+import http, {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  RequestOptions
+} from 'http'
 import https from 'https'
+import { pipeline } from 'stream/promises'
 
 const Protocols = { http, https }
 function getProtocolAdapter(url: string | URL) {
@@ -31,13 +37,85 @@ export async function request<T extends any>(url: string): Promise<T> {
   return data
 }
 
-export function download(
+export interface IDownloadOptions {
+  /** The expected SHA-1 hash of the file, e.g. from the mojang manifest */
+  sha1?: string
+  /** The expected SHA-256 hash of the file */
+  sha256?: string
+  /** The expected size of the file in bytes */
+  size?: number
+  /** How many times a failed download is retried */
+  retries?: number
+  /** The delay before the first retry in milliseconds, doubled for every retry */
+  retryDelay?: number
+  /** How many redirects are followed */
+  maxRedirects?: number
+}
+
+/** Identifies the remote file a partial download belongs to */
+interface IPartialDownload {
+  url: string
+  /** The strong ETag or Last-Modified date of the remote file, sent as `If-Range` */
+  validator: string
+}
+
+/**
+ * Downloads a file to a temporary file, verifies it and moves it into place
+ * @param uri The url of the file
+ * @param path The path the file is saved to
+ * @param encoding The encoding of the response
+ * @param progressCallback Receives the download progress
+ * @param options The expected hashes and size of the file and the retry behaviour
+ */
+export async function download(
   uri: string,
   path: string,
   encoding?: BufferEncoding,
-  progressCallback: (current: number, total: number) => void = () => {}
+  progressCallback: (current: number, total: number) => void = () => {},
+  options: IDownloadOptions = {}
 ) {
+  const { retries = 3, retryDelay = 1000 } = options
+  const part = `${path}.part`
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await downloadPart(uri, part, encoding, progressCallback, options)
+      await verify(part, options)
+      await rename(part, path)
+      await unlink(`${part}.json`).catch(() => {})
+      return
+    } catch (err: any) {
+      //* A corrupt partial download can't be resumed
+      if (err instanceof ChecksumError) await removePartial(part)
+      const retryable =
+        !(err instanceof StatusError) || err.status === 429 || err.status >= 500
+      if (attempt >= retries || !retryable) {
+        await removePartial(part)
+        throw err
+      }
+      await new Promise(resolve =>
+        setTimeout(resolve, retryDelay * 2 ** attempt)
+      )
+    }
+  }
+}
+
+async function downloadPart(
+  uri: string,
+  part: string,
+  encoding: BufferEncoding | undefined,
+  progressCallback: (current: number, total: number) => void,
+  { maxRedirects = 10 }: IDownloadOptions,
+  redirects = 0,
+  origin = uri
+): Promise<void> {
   const url = new URL(uri)
+  //* Resume from the end of an interrupted download of the same file
+  let offset = existsSync(part) ? (await stat(part)).size : 0
+  const partial = offset ? await readPartial(part) : undefined
+  if (offset && partial?.url !== origin) {
+    await removePartial(part)
+    offset = 0
+  }
   const options: RequestOptions = {
     hostname: url.hostname,
     port: url.port,
@@ -47,30 +125,121 @@ export function download(
       'Accept': '*/*',
       'Referer': 'no-referer',
       'User-Agent': 'node-fetch',
-      'Accept-Encoding': 'gzip, deflate, br'
+      'Accept-Encoding': 'identity',
+      //* The server sends the whole file instead if it changed since
+      ...(offset && partial
+        ? { 'Range': `bytes=${offset}-`, 'If-Range': partial.validator }
+        : {})
     }
   }
 
-  return new Promise<void>((resolve, reject) => {
-    getProtocolAdapter(uri)
-      .get(options, res => {
-        if (encoding) res.setEncoding(encoding)
-        console.log(res)
-        const file = createWriteStream(path)
-        const total = parseInt(res.headers?.['content-length'] || '0', 10)
-        let current = 0
-        res
-          .on('data', chunk =>
-            progressCallback((current += chunk.length), total)
-          )
-          .pipe(file)
-        file.on('finish', () => file.close(() => resolve()))
-      })
-      .on('error', err => {
-        unlink(path)
-        reject(err)
-      })
-  })
+  const res = await new Promise<IncomingMessage>((resolve, reject) =>
+    getProtocolAdapter(url).get(options, resolve).on('error', reject)
+  )
+  const { statusCode = 0, headers } = res
+
+  if (statusCode >= 300 && statusCode < 400 && headers.location) {
+    res.resume()
+    if (redirects >= maxRedirects)
+      throw new StatusError(statusCode, `Too many redirects for ${uri}`)
+    const location = new URL(headers.location, url).href
+    return downloadPart(
+      location,
+      part,
+      encoding,
+      progressCallback,
+      { maxRedirects },
+      redirects + 1,
+      origin
+    )
+  }
+
+  //* The partial file is already complete or no longer matches the remote file
+  if (statusCode === 416) {
+    res.resume()
+    await removePartial(part)
+    throw new Error(`The partial download of ${uri} is invalid`)
+  }
+
+  if (statusCode < 200 || statusCode >= 300) {
+    res.resume()
+    throw new StatusError(
+      statusCode,
+      `Error ${statusCode}: ${res.statusMessage}`
+    )
+  }
+
+  //* Servers that ignore the range header send the whole file again
+  const resumed = statusCode === 206
+  if (resumed) {
+    const start = headers['content-range']?.match(/^bytes (\d+)-/)?.[1]
+    if (Number(start) !== offset) {
+      res.resume()
+      await removePartial(part)
+      return downloadPart(
+        uri,
+        part,
+        encoding,
+        progressCallback,
+        { maxRedirects },
+        redirects,
+        origin
+      )
+    }
+  } else {
+    const validator = getValidator(headers)
+    if (validator)
+      await writeFile(
+        `${part}.json`,
+        JSON.stringify({ url: origin, validator }),
+        'utf-8'
+      )
+    else await unlink(`${part}.json`).catch(() => {})
+  }
+  let current = resumed ? offset : 0
+  const total = current + parseInt(headers['content-length'] || '0', 10)
+  if (encoding) res.setEncoding(encoding)
+  res.on('data', chunk => progressCallback((current += chunk.length), total))
+  await pipeline(res, createWriteStream(part, { flags: resumed ? 'a' : 'w' }))
+  if (total && current < total)
+    throw new Error(`The download of ${uri} ended early`)
+}
+
+/** Gets the strong ETag or the Last-Modified date, weak ETags can't be used with `If-Range` */
+function getValidator(headers: IncomingHttpHeaders) {
+  const { etag } = headers
+  if (etag && !etag.startsWith('W/')) return etag
+  return headers['last-modified']
+}
+
+async function readPartial(part: string) {
+  return readFile(`${part}.json`, 'utf-8')
+    .then(content => JSON.parse(content) as IPartialDownload)
+    .catch(() => undefined)
+}
+
+async function removePartial(part: string) {
+  await unlink(part).catch(() => {})
+  await unlink(`${part}.json`).catch(() => {})
+}
+
+async function verify(file: string, { sha1, sha256, size }: IDownloadOptions) {
+  if (size !== undefined) {
+    const actual = (await stat(file)).size
+    if (actual !== size)
+      throw new ChecksumError('size', String(size), String(actual))
+  }
+  const checks = [
+    ['sha1', sha1],
+    ['sha256', sha256]
+  ].filter((check): check is [string, string] => !!check[1])
+  for (const [algorithm, expected] of checks) {
+    const hash = createHash(algorithm)
+    await pipeline(createReadStream(file), hash)
+    const actual = hash.digest('hex')
+    if (actual.toLowerCase() !== expected.trim().toLowerCase())
+      throw new ChecksumError(algorithm, expected, actual)
+  }
 }
 
 export class StatusError extends Error {
@@ -81,3 +250,18 @@ export class StatusError extends Error {
     this.status = status
   }
 }
+
+export class ChecksumError extends Error {
+  algorithm: string
+  expected: string
+  actual: string
+
+  constructor(algorithm: string, expected: string, actual: string) {
+    super(
+      `Download verification failed: expected ${algorithm} ${expected} but got ${actual}`
+    )
+    this.algorithm = algorithm
+    this.expected = expected
+    this.actual = actual
+  }
+}
@@ -0,0 +1,250 @@
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { readFile, stat, writeFile } from 'fs/promises'
+import { createServer, Server as HttpServer } from 'http'
+import { AddressInfo } from 'net'
+import { networkInterfaces } from 'os'
+import path from 'path'
+import Datapacks from './datapacks'
+import type { Server } from './servers/server'
+import { createZip } from './zip'
+
+export interface IResourcePackOptions {
+  /** The address the pack is served on, defaults to `server-ip` or every address */
+  host: string
+  /** The port the pack is served on, defaults to 0 which picks a free port */
+  port: number
+  /** The host players download the pack from, defaults to `server-ip` or the address of the machine */
+  publicHost: string
+}
+
+export interface ISetResourcePackOptions {
+  /** Whether players are kicked if they decline the pack */
+  required: boolean
+  /** The message shown when players are asked to use the pack */
+  prompt?: string
+  /** Sets the pack even if it doesn't support the server's pack format */
+  force: boolean
+}
+
+export interface IResourcePack {
+  /** The url players download the pack from */
+  url: string
+  sha1: string
+  /** The size of the zip in bytes */
+  size: number
+  packFormat: number
+}
+
+/**
+ * Serves the resource pack of a server over HTTP and points `server.properties` at it
+ *
+ * The url contains the hash of the pack, so players download the pack again whenever it changes.
+ */
+export default class ResourcePackHost {
+  server: Server
+  options: IResourcePackOptions
+  #http?: HttpServer
+  #pack?: { zip: Buffer; sha1: string }
+
+  static DefaultOptions: IResourcePackOptions = {
+    host: '',
+    port: 0,
+    publicHost: ''
+  }
+
+  /** The zip of the current pack is kept in the server directory so it can be served again later */
+  static FileName = 'resourcepack.zip'
+
+  constructor(server: Server, options?: Partial<IResourcePackOptions>) {
+    this.server = server
+    this.options = Object.assign(
+      structuredClone(ResourcePackHost.DefaultOptions),
+      options
+    )
+  }
+
+  get path() {
+    return path.join(this.server.path, ResourcePackHost.FileName)
+  }
+
+  /**
+   * Serves a resource pack and sets `resource-pack`, `resource-pack-sha1` and `require-resource-pack`
+   *
+   * The properties are read when the server starts, so a running server has to be restarted.
+   * @param source The path of the pack folder or zip, folders are zipped
+   * @throws {ResourcePackError} If the server doesn't support resource packs, or the pack is invalid or doesn't support the server's pack format
+   */
+  async set(
+    source: string,
+    options?: Partial<ISetResourcePackOptions>
+  ): Promise<IResourcePack> {
+    const { required, prompt, force } = {
+      required: false,
+      force: false,
+      ...options
+    }
+    const format = await this.getPackFormat()
+    if (format === undefined)
+      throw new ResourcePackError(
+        "The server version doesn't support resource packs."
+      )
+    const zip = (await stat(source)).isDirectory()
+      ? await createZip(source)
+      : await readFile(source)
+    const meta = await Datapacks.readMeta(zip).catch(err => {
+      throw new ResourcePackError(err.message)
+    })
+    const [min, max] = meta.supportedFormats || [
+      meta.packFormat,
+      meta.packFormat
+    ]
+    if (!force && (format < min || format > max))
+      throw new ResourcePackError(
+        `The resource pack supports pack format ${
+          min === max ? min : `${min}-${max}`
+        } but the server uses ${format}.`
+      )
+
+    const sha1 = createHash('sha1').update(zip).digest('hex')
+    //* Nothing is changed if the pack can't be served, e.g. the port is in use
+    const url = await this.#getUrl(sha1)
+    await writeFile(this.path, zip)
+    this.#pack = { zip, sha1 }
+    const { properties } = this.server
+    const values: [string, string | boolean][] = [
+      ['resource-pack', url],
+      ['resource-pack-sha1', sha1],
+      ['require-resource-pack', required]
+    ]
+    if (prompt !== undefined) values.push(['resource-pack-prompt', prompt])
+    await properties.setProperties(
+      values.map(([name, value]) => ({
+        name,
+        value: properties.serialize(name, value)
+      }))
+    )
+    this.server.log(`Serving the resource pack at ${url}.`)
+    if (this.server.state === 'RUNNING')
+      this.server.warn('The resource pack is used once the server restarts.')
+    return { url, sha1, size: zip.length, packFormat: meta.packFormat }
+  }
+
+  /**
+   * Stops serving the resource pack and clears the resource pack properties
+   */
+  async clear() {
+    this.#pack = undefined
+    await this.close()
+    await this.server.properties.setProperties([
+      { name: 'resource-pack', value: '' },
+      { name: 'resource-pack-sha1', value: '' },
+      { name: 'require-resource-pack', value: 'false' }
+    ])
+  }
+
+  /** Gets the resource pack format of the server, e.g. 15 for 1.20.1 */
+  async getPackFormat() {
+    const info = await this.server.getVersionInfo()
+    return info?.pack_version?.resource
+  }
+
+  /**
+   * Gets the url of the current pack, the host starts listening if it isn't already
+   * @throws {ResourcePackError} If no pack is set
+   */
+  async getUrl() {
+    if (!this.#pack) throw new ResourcePackError('No resource pack is set.')
+    return this.#getUrl(this.#pack.sha1)
+  }
+
+  /**
+   * Starts serving the resource pack
+   * @returns The address the pack is served on
+   */
+  async listen() {
+    if (this.#http) return this.#http.address() as AddressInfo
+    const http = createServer((req, res) => {
+      const pack = this.#pack
+      const url = new URL(req.url || '/', 'http://localhost')
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.writeHead(405, { Allow: 'GET, HEAD' }).end()
+        return
+      }
+      if (
+        !pack ||
+        url.pathname !== `/${pack.sha1}/${ResourcePackHost.FileName}`
+      ) {
+        res.writeHead(404).end()
+        return
+      }
+      res.writeHead(200, {
+        'Content-Type': 'application/zip',
+        'Content-Length': pack.zip.length,
+        //* The url changes with the pack, so it can be cached forever
+        'Cache-Control': 'public, max-age=31536000, immutable'
+      })
+      res.end(req.method === 'GET' ? pack.zip : undefined)
+    })
+    const host =
+      this.options.host ||
+      (await this.server.properties.get('server-ip')) ||
+      '0.0.0.0'
+    await new Promise<void>((resolve, reject) => {
+      http.once('error', reject)
+      http.listen(this.options.port, host, () => {
+        http.off('error', reject)
+        resolve()
+      })
+    })
+    //* Serving the pack doesn't keep the process alive on its own
+    http.unref()
+    this.#http = http
+    return http.address() as AddressInfo
+  }
+
+  /** Stops serving the resource pack */
+  async close() {
+    const http = this.#http
+    if (!http) return
+    this.#http = undefined
+    await new Promise<void>(resolve => http.close(() => resolve()))
+  }
+
+  /**
+   * Serves the pack from an earlier run again, the server calls this while starting before it reads its properties
+   */
+  async restore() {
+    if (this.#pack || !existsSync(this.path)) return
+    const sha1 = await this.server.properties.get('resource-pack-sha1')
+    const zip = await readFile(this.path)
+    if (!sha1 || createHash('sha1').update(zip).digest('hex') !== sha1) return
+    const url = await this.#getUrl(sha1)
+    this.#pack = { zip, sha1 }
+    //* The host or port can differ from the earlier run
+    if ((await this.server.properties.get('resource-pack')) !== url)
+      await this.server.properties.set('resource-pack', url)
+    this.server.log(`Serving the resource pack at ${url}.`)
+  }
+
+  async #getUrl(sha1: string) {
+    const { port } = await this.listen()
+    const host =
+      this.options.publicHost ||
+      (await this.server.properties.get('server-ip')) ||
+      getLocalAddress()
+    return `http://${host.includes(':') ? `[${host}]` : host}:${port}/${sha1}/${
+      ResourcePackHost.FileName
+    }`
+  }
+}
+
+/** Gets the first external IPv4 address of the machine */
+function getLocalAddress() {
+  for (const addresses of Object.values(networkInterfaces()))
+    for (const address of addresses || [])
+      if (address.family === 'IPv4' && !address.internal) return address.address
+  return '127.0.0.1'
+}
+
+export class ResourcePackError extends Error {}
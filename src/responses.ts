@@ -0,0 +1,124 @@
+export interface IPlayerList {
+  online: number
+  max: number
+  players: string[]
+}
+
+/** The average ticks per second over the last 1, 5 and 15 minutes */
+export interface ITps {
+  '1m': number
+  '5m': number
+  '15m': number
+}
+
+export interface ITickTimes {
+  avg: number
+  min: number
+  max: number
+}
+
+/** The milliseconds per tick over the last 5 seconds, 10 seconds and minute */
+export interface IMspt {
+  '5s': ITickTimes
+  '10s': ITickTimes
+  '1m': ITickTimes
+}
+
+export type ResponseParser<T = unknown> = (response: string) => T
+
+/**
+ * Splits a comma separated list of names, group prefixes (`default: Steve`) and uuids (`Steve (uuid)`) are removed
+ */
+export function parseNames(content: string) {
+  return content
+    .split(/[,\n]/)
+    .map(name =>
+      name
+        .replace(/^[^:]*:\s*/, '')
+        .replace(/\s*\([^)]*\)\s*$/, '')
+        .trim()
+    )
+    .filter(name => !!name)
+}
+
+/**
+ * Parses the output of `list`, e.g. `There are 2 of a max of 20 players online: Steve, Alex`
+ */
+export function parseList(response: string): IPlayerList | undefined {
+  const match = response.match(
+    /There are (\d+) ?(?:of a max of|\/|out of maximum) ?(\d+) players online[:.]?([\s\S]*)$/i
+  )
+  if (!match) return
+  return {
+    online: Number(match[1]),
+    max: Number(match[2]),
+    players: parseNames(match[3])
+  }
+}
+
+/**
+ * Parses the output of `whitelist list`, e.g. `There are 2 whitelisted player(s): Steve, Alex`
+ */
+export function parseWhitelist(response: string): string[] | undefined {
+  if (/There are no whitelisted players/i.test(response)) return []
+  const match = response.match(/whitelisted players?(?:\(s\))?:([\s\S]*)$/i)
+  if (!match) return
+  return parseNames(match[1])
+}
+
+/** Removes color codes and ANSI escapes, paper colors the numbers in its output */
+function stripColors(response: string) {
+  return response.replace(/\u001b\[[0-9;]*m|§[0-9a-fk-or]/gi, '')
+}
+
+/**
+ * Parses the output of paper and spigot's `tps`, e.g. `TPS from last 1m, 5m, 15m: 20.0, 19.98, *20.0`
+ */
+export function parseTps(response: string): ITps | undefined {
+  const match = stripColors(response).match(
+    /TPS from last 1m, 5m, 15m: \*?([\d.]+), \*?([\d.]+), \*?([\d.]+)/i
+  )
+  if (!match) return
+  return {
+    '1m': Number(match[1]),
+    '5m': Number(match[2]),
+    '15m': Number(match[3])
+  }
+}
+
+/**
+ * Parses the output of paper's `mspt`, the times follow `Server tick times (avg/min/max) from last 5s, 10s, 1m:`
+ */
+export function parseMspt(response: string): IMspt | undefined {
+  const content = stripColors(response)
+  if (!/Server tick times/i.test(content)) return
+  const times = [...content.matchAll(/([\d.]+)\/([\d.]+)\/([\d.]+)/g)].map(
+    ([, avg, min, max]) => ({
+      avg: Number(avg),
+      min: Number(min),
+      max: Number(max)
+    })
+  )
+  if (times.length < 3) return
+  return { '5s': times[0], '10s': times[1], '1m': times[2] }
+}
+
+/** Parsers for the output of common commands, keyed by the command */
+export const ResponseParsers: Record<string, ResponseParser> = {
+  'list': parseList,
+  'list uuids': parseList,
+  'whitelist list': parseWhitelist,
+  'tps': parseTps,
+  'mspt': parseMspt
+}
+
+/**
+ * Parses the output of a command if there's a parser for it
+ * @param command The command that was executed
+ * @param response The output of the command
+ */
+export function parseResponse(command: string, response: string) {
+  const key = command.trim().replace(/^\//, '').replace(/\s+/g, ' ')
+  const parser = ResponseParsers[key.toLowerCase()]
+  return parser?.(response)
+}
@@ -0,0 +1,382 @@
+import { randomUUID } from 'crypto'
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import type { Server } from './servers/server'
+
+export type TaskType = 'command' | 'restart'
+
+export interface ITask {
+  id: string
+  name?: string
+  type: TaskType
+  /** The commands to run for `command` tasks */
+  commands: string[]
+  /** How long before a restart to warn the players in milliseconds */
+  warnings: number[]
+  /** The warning broadcast before a restart, `{time}` is replaced with the time left */
+  message: string
+  /** A cron expression, e.g. `0 4 * * *` */
+  cron?: string
+  /** In milliseconds */
+  interval?: number
+  /** When the task runs next as a unix timestamp in milliseconds, tasks without a cron or interval only run once */
+  nextRun: number
+  lastRun?: number
+}
+
+export interface ITaskOptions {
+  name?: string
+  /** A cron expression, an interval in milliseconds or a date to run the task once */
+  schedule: string | number | Date
+  /** The warnings for restart tasks, see `ITask` */
+  warnings?: number[]
+  message?: string
+}
+
+/**
+ * Runs commands and restarts on a schedule, tasks only run while the server is running and are stored in `schedule.json`
+ *
+ * Recurring tasks that were missed while the server wasn't running are skipped, tasks that only run once run as soon as the server is running again.
+ */
+export default class Scheduler {
+  server: Server
+  #tasks: ITask[] = []
+  #loading?: Promise<void>
+  #timer?: NodeJS.Timeout
+  #ticking = false
+  /** The warnings already broadcast for each restart task */
+  #warned = new Map<string, Set<number>>()
+
+  /** How often due tasks are checked for in milliseconds */
+  static TickRate = 1000
+  static DefaultWarnings = [10 * 60000, 5 * 60000, 60000, 10000]
+  static DefaultMessage = 'Server restarting in {time}...'
+
+  constructor(server: Server) {
+    this.server = server
+    server.on('stateUpdate', state => {
+      if (state === 'RUNNING')
+        this.resume().catch(err =>
+          server.error(`Failed to load the schedule. ${err.message}`)
+        )
+      else this.pause()
+    })
+  }
+
+  get path() {
+    return path.join(this.server.path, 'schedule.json')
+  }
+
+  get tasks(): readonly ITask[] {
+    return this.#tasks
+  }
+
+  /**
+   * Schedules commands
+   * @param options When to run the commands
+   * @param commands The commands to run, without a leading slash
+   */
+  command(
+    options: ITaskOptions | ITaskOptions['schedule'],
+    ...commands: string[]
+  ) {
+    return this.add('command', options, commands)
+  }
+
+  /**
+   * Schedules a restart, the players are warned before the server restarts
+   * @param options When to restart the server and when to warn the players
+   */
+  restart(options: ITaskOptions | ITaskOptions['schedule']) {
+    return this.add('restart', options)
+  }
+
+  /**
+   * Runs commands once after a delay
+   * @param delay In milliseconds
+   * @param commands The commands to run, without a leading slash
+   */
+  once(delay: number, ...commands: string[]) {
+    return this.command({ schedule: new Date(Date.now() + delay) }, ...commands)
+  }
+
+  /**
+   * Adds a task and saves the schedule
+   * @throws {ScheduleError} If the schedule is invalid
+   */
+  async add(
+    type: TaskType,
+    options: ITaskOptions | ITaskOptions['schedule'],
+    commands: string[] = []
+  ) {
+    const taskOptions: ITaskOptions =
+      typeof options === 'object' && !(options instanceof Date)
+        ? options
+        : { schedule: options }
+    const {
+      name,
+      schedule,
+      warnings = Scheduler.DefaultWarnings,
+      message = Scheduler.DefaultMessage
+    } = taskOptions
+    const task: ITask = {
+      id: randomUUID(),
+      name,
+      type,
+      commands,
+      warnings: [...warnings].sort((a, b) => b - a),
+      message,
+      nextRun: 0
+    }
+    if (typeof schedule === 'string') {
+      task.cron = schedule
+      task.nextRun = nextCronRun(schedule)
+    } else if (typeof schedule === 'number') {
+      if (!(schedule > 0))
+        throw new ScheduleError('The interval must be greater than 0.')
+      task.interval = schedule
+      task.nextRun = Date.now() + schedule
+    } else task.nextRun = schedule.getTime()
+    await this.load()
+    this.#tasks.push(task)
+    await this.save()
+    return task
+  }
+
+  /**
+   * Removes a task and saves the schedule
+   * @returns Whether the task existed
+   */
+  async remove(id: string) {
+    await this.load()
+    const index = this.#tasks.findIndex(task => task.id === id)
+    if (index === -1) return false
+    this.#tasks.splice(index, 1)
+    this.#warned.delete(id)
+    await this.save()
+    return true
+  }
+
+  /** Loads the schedule the first time it's used */
+  load() {
+    if (!this.#loading)
+      this.#loading = (async () => {
+        if (!existsSync(this.path)) return
+        const content = await readFile(this.path, 'utf-8')
+        const { tasks = [] } = JSON.parse(content) as { tasks?: ITask[] }
+        this.#tasks.push(...tasks)
+      })()
+    return this.#loading
+  }
+
+  async save() {
+    await mkdir(this.server.path, { recursive: true })
+    await writeFile(
+      this.path,
+      JSON.stringify({ tasks: this.#tasks }, null, 2),
+      'utf-8'
+    )
+  }
+
+  /** Starts running tasks, called when the server starts running */
+  async resume() {
+    await this.load()
+    if (this.#timer || this.server.state !== 'RUNNING') return
+    const now = Date.now()
+    this.#tasks.forEach(task => {
+      if (task.nextRun > now || (!task.cron && !task.interval)) return
+      task.nextRun = this.#next(task, now)
+      this.#warned.delete(task.id)
+    })
+    this.#timer = setInterval(() => this.#tick(), Scheduler.TickRate)
+  }
+
+  /** Stops running tasks, called when the server stops running */
+  pause() {
+    clearInterval(this.#timer)
+    this.#timer = undefined
+  }
+
+  async #tick() {
+    if (this.#ticking) return
+    this.#ticking = true
+    try {
+      const now = Date.now()
+      for (const task of [...this.#tasks]) {
+        if (this.server.state !== 'RUNNING') break
+        if (task.type === 'restart') await this.#warn(task, now)
+        if (task.nextRun <= now) await this.#run(task, now)
+      }
+    } finally {
+      this.#ticking = false
+    }
+  }
+
+  async #run(task: ITask, now: number) {
+    task.lastRun = now
+    this.#warned.delete(task.id)
+    if (task.cron || task.interval) task.nextRun = this.#next(task, now)
+    else this.#tasks.splice(this.#tasks.indexOf(task), 1)
+    await this.save().catch(err =>
+      this.server.error(`Failed to save the schedule. ${err.message}`)
+    )
+
+    if (task.type === 'restart') {
+      this.server.log(
+        `Running scheduled restart${task.name ? ` '${task.name}'` : ''}...`
+      )
+      //* Not awaited, the scheduler pauses while the server restarts
+      this.server.restart().catch(() => {})
+      return
+    }
+    for (const command of task.commands) {
+      if (this.server.state !== 'RUNNING') break
+      await this.server.execute(command).catch(() => {})
+    }
+  }
+
+  /**
+   * Broadcasts the closest warning that's due, warnings that were missed aren't broadcast
+   */
+  async #warn(task: ITask, now: number) {
+    const remaining = task.nextRun - now
+    if (remaining <= 0) return
+    const warned = this.#warned.get(task.id) || new Set()
+    const due = task.warnings.filter(
+      warning => warning >= remaining && !warned.has(warning)
+    )
+    if (!due.length) return
+    due.forEach(warning => warned.add(warning))
+    this.#warned.set(task.id, warned)
+    //* The closest warning is only broadcast if it's on time, e.g. not after a restart
+    const closest = Math.min(...due)
+    if (closest - remaining > Scheduler.TickRate) return
+    const time = formatDuration(closest)
+    await this.server
+      .execute(`say ${task.message.replace(/\{time\}/g, time)}`)
+      .catch(() => {})
+  }
+
+  #next(task: ITask, from: number) {
+    if (task.cron) return nextCronRun(task.cron, new Date(from))
+    return from + (task.interval || 0)
+  }
+}
+
+const CronShortcuts: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+/** The minimum and maximum of the minute, hour, day of month, month and day of week fields */
+const CronRanges = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7]
+]
+
+/**
+ * Parses a cron expression into the values allowed by each field
+ * @param expression 5 fields separated by spaces, `*`, ranges, steps and lists are supported, e.g. `*\/15 9-17 * * 1-5`
+ * @throws {ScheduleError} If the expression is invalid
+ */
+export function parseCron(expression: string) {
+  const fields = (CronShortcuts[expression.trim()] || expression)
+    .trim()
+    .split(/\s+/)
+  if (fields.length !== 5)
+    throw new ScheduleError(`'${expression}' must have 5 fields.`)
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => {
+    const [min, max] = CronRanges[i]
+    const values = new Set<number>()
+    for (const part of field.split(',')) {
+      const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+      if (!match)
+        throw new ScheduleError(`'${part}' in '${expression}' is invalid.`)
+      const [, , start, end, step] = match
+      const from = start ? Number(start) : min
+      const to = end ? Number(end) : start && !step ? from : max
+      const by = step ? Number(step) : 1
+      if (from < min || to > max || from > to || by < 1)
+        throw new ScheduleError(`'${part}' in '${expression}' is out of range.`)
+      for (let value = from; value <= to; value += by) values.add(value)
+    }
+    return values
+  })
+  //* Sunday can be 0 or 7
+  if (weekdays.has(7)) weekdays.add(0)
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    //* When both days are restricted a day matching either runs the task
+    anyDay: !fields[2].startsWith('*') && !fields[4].startsWith('*')
+  }
+}
+
+/**
+ * Gets the next time a cron expression matches in local time
+ * @param expression A cron expression, see `parseCron`
+ * @param from The time to search from, the result is always after it
+ * @returns A unix timestamp in milliseconds
+ */
+export function nextCronRun(expression: string, from = new Date()) {
+  const { minutes, hours, days, months, weekdays, anyDay } =
+    parseCron(expression)
+  const date = new Date(from)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+  const limit = from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000
+  while (date.getTime() <= limit) {
+    if (!months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0)
+      continue
+    }
+    const dayMatches = anyDay
+      ? days.has(date.getDate()) || weekdays.has(date.getDay())
+      : days.has(date.getDate()) && weekdays.has(date.getDay())
+    if (!dayMatches) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0)
+      continue
+    }
+    if (!hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0)
+      continue
+    }
+    if (!minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1)
+      continue
+    }
+    return date.getTime()
+  }
+  throw new ScheduleError(`'${expression}' never matches.`)
+}
+
+/** Formats a duration for a warning, e.g. `10 minutes` */
+export function formatDuration(ms: number) {
+  const units: [string, number][] = [
+    ['hour', 3600000],
+    ['minute', 60000],
+    ['second', 1000]
+  ]
+  for (const [unit, size] of units) {
+    const value = Math.round(ms / size)
+    if (value >= 1 && (ms >= size || unit === 'second'))
+      return `${value} ${unit}${value === 1 ? '' : 's'}`
+  }
+  return '0 seconds'
+}
+
+export class ScheduleError extends Error {}
@@ -0,0 +1,421 @@
+import EventEmitter from 'events'
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { createServer } from 'net'
+import path from 'path'
+import Server, { ServerEvents } from './servers/server'
+import SpigotServer, { ISpigotOptions } from './servers/spigotServer'
+import FabricServer, { IFabricOptions } from './servers/fabricServer'
+import ForgeServer from './servers/forgeServer'
+import { IOptions, ServerStatus } from './shared'
+
+export type ServerType = 'vanilla' | 'spigot' | 'fabric' | 'forge'
+
+export interface IServerPorts {
+  server: number
+  rcon: number
+  query: number
+}
+
+/** A server as it's stored in the registry */
+export interface IServerEntry {
+  id: string
+  type: ServerType
+  version?: string
+  /** The fabric loader or forge version */
+  loader?: string
+  options: Partial<IOptions & ISpigotOptions & IFabricOptions>
+  ports: IServerPorts
+}
+
+export interface IManagerOptions {
+  /** The file the registry is stored in */
+  path: string
+  /** The first port to assign, ports are assigned counting up from it */
+  basePort: number
+  maxPort: number
+  /** How many servers to start or stop at once */
+  concurrency: number
+  /** Whether to stop every server when node receives SIGINT or SIGTERM or is about to exit, see {@link Server.stopOnExit} */
+  handleSignals: boolean
+}
+
+export interface IBulkResult {
+  id: string
+  error?: Error
+}
+
+export type ManagerEvents = {
+  [K in keyof ServerEvents]: (
+    id: string,
+    ...args: Parameters<ServerEvents[K]>
+  ) => void
+}
+
+export interface ServerManager {
+  on<U extends keyof ManagerEvents>(event: U, listener: ManagerEvents[U]): this
+  once<U extends keyof ManagerEvents>(
+    event: U,
+    listener: ManagerEvents[U]
+  ): this
+  emit<U extends keyof ManagerEvents>(
+    event: U,
+    ...args: Parameters<ManagerEvents[U]>
+  ): boolean
+}
+
+/** An event of a server and the listener that forwards it */
+type ServerListener = [keyof ServerEvents, ServerEvents[keyof ServerEvents]]
+
+type OptionKey = keyof IServerEntry['options']
+
+/**
+ * Manages many servers of any type, the servers are stored in a registry and given their own ports
+ */
+export class ServerManager extends EventEmitter {
+  options: IManagerOptions
+  #servers = new Map<string, Server>()
+  #entries = new Map<string, IServerEntry>()
+  #listeners = new Map<string, ServerListener[]>()
+
+  static DefaultOptions: IManagerOptions = {
+    path: './servers.json',
+    basePort: 25565,
+    maxPort: 26565,
+    concurrency: 2,
+    handleSignals: true
+  }
+
+  /** The server events that are forwarded with the id of the server */
+  static Events: (keyof ServerEvents)[] = [
+    'stateUpdate',
+    'message',
+    'eula',
+    'download',
+    'playerJoin',
+    'playerLeave',
+    'chat',
+    'death',
+    'advancement',
+    'kick',
+    'restarting',
+    'gaveUp',
+    'metrics'
+  ]
+
+  /** How long to wait for a server to start or stop in milliseconds */
+  static StateTimeout = 5 * 60 * 1000
+
+  constructor(options?: Partial<IManagerOptions>) {
+    super()
+    this.options = Object.assign(
+      structuredClone(ServerManager.DefaultOptions),
+      options
+    )
+  }
+
+  /** The registered servers by id */
+  get servers(): ReadonlyMap<string, Server> {
+    return this.#servers
+  }
+
+  get entries(): IServerEntry[] {
+    return [...this.#entries.values()]
+  }
+
+  get(id: string) {
+    return this.#servers.get(id)
+  }
+
+  /**
+   * Loads the registry and creates its servers, servers that are already registered are kept
+   */
+  async load() {
+    if (!existsSync(this.options.path)) return
+    const content = await readFile(this.options.path, 'utf-8')
+    const { servers = [] } = JSON.parse(content) as {
+      servers?: IServerEntry[]
+    }
+    for (const entry of servers) {
+      if (this.#servers.has(entry.id)) continue
+      this.#register(entry, ServerManager.createServer(entry))
+    }
+  }
+
+  async save() {
+    await mkdir(path.dirname(this.options.path), { recursive: true })
+    await writeFile(
+      this.options.path,
+      JSON.stringify({ servers: this.entries }, null, 2),
+      'utf-8'
+    )
+  }
+
+  /**
+   * Creates and registers a server
+   * @param loader The fabric loader or forge version
+   */
+  async create(
+    id: string,
+    type: ServerType,
+    version?: string,
+    options?: IServerEntry['options'],
+    loader?: string
+  ) {
+    const server = ServerManager.createServer({
+      type,
+      version,
+      loader,
+      options: options || {}
+    })
+    await this.add(id, server)
+    return server
+  }
+
+  /**
+   * Registers a server and assigns it ports that aren't used by the other servers
+   * @throws {ManagerError} If the id is already registered or there are no ports left
+   */
+  async add(id: string, server: Server) {
+    if (this.#entries.has(id))
+      throw new ManagerError(`A server with the id '${id}' already exists.`)
+    const entry: IServerEntry = {
+      id,
+      type: ServerManager.getType(server),
+      version: server.version,
+      loader:
+        server instanceof FabricServer
+          ? server.loader
+          : server instanceof ForgeServer
+          ? server.forge
+          : undefined,
+      options: ServerManager.getOptions(server),
+      ports: await this.#assignPorts(server)
+    }
+    this.#register(entry, server)
+    await this.save()
+    return entry
+  }
+
+  /**
+   * Unregisters a server, the server isn't stopped
+   * @returns Whether the server was registered
+   */
+  async remove(id: string) {
+    const server = this.#servers.get(id)
+    if (!server) return false
+    this.#listeners
+      .get(id)
+      ?.forEach(([event, listener]) => server.off(event, listener))
+    this.#listeners.delete(id)
+    this.#servers.delete(id)
+    this.#entries.delete(id)
+    await this.save()
+    return true
+  }
+
+  /**
+   * Starts servers a few at a time, each start waits for the server to be running
+   * @param ids The servers to start, every stopped server by default
+   * @param concurrency How many servers to start at once
+   */
+  startAll(ids?: string[], concurrency = this.options.concurrency) {
+    return this.#bulk(ids, concurrency, async server => {
+      if (!server.canStart) return
+      await server.start()
+      const state = await ServerManager.waitForState(server, [
+        'RUNNING',
+        'STOPPED',
+        'CRASHED'
+      ])
+      if (state !== 'RUNNING')
+        throw new ManagerError('The server stopped while starting.')
+    })
+  }
+
+  /**
+   * Stops servers a few at a time, each stop waits for the server to exit
+   * @param ids The servers to stop, every running server by default
+   * @param concurrency How many servers to stop at once
+   */
+  stopAll(ids?: string[], concurrency = this.options.concurrency) {
+    return this.#bulk(ids, concurrency, async server => {
+      if (server.canStart) return
+      await server.stop()
+    })
+  }
+
+  /** Leaves the servers running when node receives SIGINT or SIGTERM or is about to exit */
+  dispose() {
+    this.options.handleSignals = false
+    for (const server of this.#servers.values()) server.stopOnExit = false
+  }
+
+  #register(entry: IServerEntry, server: Server) {
+    //* Servers stop on exit through the hook every server shares
+    server.stopOnExit = this.options.handleSignals
+    const forward = <K extends keyof ServerEvents>(
+      event: K
+    ): ServerListener => {
+      const listener: (...args: Parameters<ServerEvents[K]>) => void = (
+        ...args
+      ) => {
+        EventEmitter.prototype.emit.call(this, event, entry.id, ...args)
+      }
+      return [event, listener as ServerEvents[K]]
+    }
+    const listeners = ServerManager.Events.map(forward)
+    listeners.forEach(([event, listener]) => server.on(event, listener))
+    this.#listeners.set(entry.id, listeners)
+    this.#servers.set(entry.id, server)
+    this.#entries.set(entry.id, entry)
+  }
+
+  /**
+   * Keeps the ports in `server.properties` unless another server uses them, otherwise the next free ports are assigned
+   */
+  async #assignPorts(server: Server): Promise<IServerPorts> {
+    const used = new Set<number>()
+    for (const { ports } of this.#entries.values()) {
+      used.add(ports.server)
+      used.add(ports.rcon)
+    }
+    const { basePort, maxPort } = this.options
+    const next = async (preferred?: number) => {
+      if (preferred && !used.has(preferred) && (await isPortFree(preferred))) {
+        used.add(preferred)
+        return preferred
+      }
+      for (let port = basePort; port <= maxPort; port++) {
+        if (used.has(port) || !(await isPortFree(port))) continue
+        used.add(port)
+        return port
+      }
+      throw new ManagerError(
+        `There are no free ports between ${basePort} and ${maxPort}.`
+      )
+    }
+    const { properties } = server
+    const serverPort = await next(await properties.get('server-port'))
+    const rconPort = await next(await properties.get('rcon.port'))
+    //* Query uses udp so it can share the server port
+    const ports = { server: serverPort, rcon: rconPort, query: serverPort }
+    await mkdir(server.path, { recursive: true })
+    await properties.setProperties([
+      { name: 'server-port', value: String(ports.server) },
+      { name: 'rcon.port', value: String(ports.rcon) },
+      { name: 'query.port', value: String(ports.query) }
+    ])
+    return ports
+  }
+
+  async #bulk(
+    ids = [...this.#servers.keys()],
+    concurrency: number,
+    task: (server: Server) => Promise<void>
+  ) {
+    const queue = [...ids]
+    const results: IBulkResult[] = []
+    const worker = async () => {
+      let id: string | undefined
+      while ((id = queue.shift()) !== undefined) {
+        const server = this.#servers.get(id)
+        try {
+          if (!server) throw new ManagerError(`Unable to find server '${id}'.`)
+          await task(server)
+          results.push({ id })
+        } catch (err: any) {
+          results.push({ id, error: err })
+        }
+      }
+    }
+    await Promise.all(
+      Array.from({ length: Math.max(1, concurrency) }, () => worker())
+    )
+    return results
+  }
+
+  /**
+   * Creates a server from a registry entry
+   */
+  static createServer({
+    type,
+    version,
+    loader,
+    options
+  }: Pick<IServerEntry, 'type' | 'version' | 'loader' | 'options'>) {
+    switch (type) {
+      case 'spigot':
+        return new SpigotServer(version, options)
+      case 'fabric':
+        return new FabricServer(version, loader, options)
+      case 'forge':
+        return new ForgeServer(version, loader, options)
+      default:
+        return new Server(version, options)
+    }
+  }
+
+  static getType(server: Server): ServerType {
+    if (server instanceof SpigotServer) return 'spigot'
+    if (server instanceof FabricServer) return 'fabric'
+    if (server instanceof ForgeServer) return 'forge'
+    return 'vanilla'
+  }
+
+  /** Gets the options needed to create the server again */
+  static getOptions(server: Server) {
+    const options: Partial<Record<OptionKey, unknown>> = {}
+    const defaults: IServerEntry['options'] = {
+      ...Server.DefaultOptions,
+      ...(server.constructor as typeof Server).DefaultOptions
+    }
+    //* The options are kept in fields with the same name
+    const fields: Partial<Record<OptionKey, unknown>> = server
+    for (const key of Object.keys(defaults) as OptionKey[])
+      options[key] = fields[key]
+    options.resourcePack = server.resourcePack.options
+    if (server instanceof FabricServer) options.installer = server.installer
+    return options as IServerEntry['options']
+  }
+
+  /**
+   * Resolves once the server reaches one of the states
+   * @throws {ManagerError} If the server doesn't reach a state in time
+   */
+  static waitForState(
+    server: Server,
+    states: ServerStatus[],
+    timeout = ServerManager.StateTimeout
+  ) {
+    return new Promise<ServerStatus>((resolve, reject) => {
+      if (states.includes(server.state)) return resolve(server.state)
+      const timer = setTimeout(() => {
+        server.off('stateUpdate', listener)
+        reject(
+          new ManagerError(`The server didn't reach ${states.join(' or ')}.`)
+        )
+      }, timeout)
+      const listener = (state: ServerStatus) => {
+        if (!states.includes(state)) return
+        clearTimeout(timer)
+        server.off('stateUpdate', listener)
+        resolve(state)
+      }
+      server.on('stateUpdate', listener)
+    })
+  }
+}
+
+/** Checks whether a tcp port can be listened on */
+export function isPortFree(port: number) {
+  return new Promise<boolean>(resolve => {
+    const server = createServer()
+    server.once('error', () => resolve(false))
+    server.listen(port, () => server.close(() => resolve(true)))
+  })
+}
+
+export class ManagerError extends Error {}
+
+export default ServerManager
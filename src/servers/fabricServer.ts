@@ -3,10 +3,15 @@ import Server from './server'
 import { existsSync } from 'fs'
 import Versions from '../versions'
 import { download } from '../request'
+import { FabricLogFormat, VanillaLogFormat } from '../logs'
+import Mods from '../mods'
 
 export default class FabricServer extends Server {
+  static LogFormats = [FabricLogFormat, VanillaLogFormat]
+
   loader?: string
   installer?: string
+  mods: Mods
   #useLatestInstaller: boolean
 
   constructor(
@@ -22,6 +27,7 @@ export default class FabricServer extends Server {
     this.loader = loader
     this.installer = installer
     this.#useLatestInstaller = !installer
+    this.mods = new Mods(this)
   }
 
   async downloadJar(
@@ -34,7 +40,11 @@ export default class FabricServer extends Server {
     if (!this.loader) this.loader = versions.latest.release.loader
     if (this.#useLatestInstaller || !this.installer)
       this.installer = versions.latest.release.installer
-    const url = `https://meta.fabricmc.net/v2/versions/loader/${this.version}/${this.loader}/${this.installer}/server/jar`
+    const url = Versions.url(
+      'fabric',
+      `/v2/versions/loader/${this.version}/${this.loader}/${this.installer}/server/jar`
+    )
+    //* Fabric meta doesn't publish a hash of the server jar, so it can't be verified
     await download(url, this.jar, undefined, progressCallback)
     await this.getVersionInfo(true)
   }
@@ -0,0 +1,167 @@
+import path from 'path'
+import Server from './server'
+import { IOptions } from '../shared'
+import { existsSync, readdirSync } from 'fs'
+import { rm } from 'fs/promises'
+import { download, request } from '../request'
+import Versions from '../versions'
+import { spawn } from 'child_process'
+import { ForgeLogFormat, VanillaLogFormat } from '../logs'
+
+export default class ForgeServer extends Server {
+  forge?: string
+  #forgeVersion?: string
+
+  static LogFormats = [ForgeLogFormat, VanillaLogFormat]
+
+  constructor(version?: string, forge?: string, options?: Partial<IOptions>) {
+    super(version, options)
+    this.forge = forge
+  }
+
+  /**
+   * Downloads the forge installer and runs it against the server directory
+   */
+  async downloadJar(
+    force = false,
+    progressCallback?: (current: number, total: number) => void
+  ) {
+    if (!force && (await this.validateVersion())) return
+    const forgeVersion = await this.getForgeVersion()
+    const url = Versions.url(
+      'forgeMaven',
+      `/net/minecraftforge/forge/${forgeVersion}/forge-${forgeVersion}-installer.jar`
+    )
+    //* The forge maven publishes a hash next to every artifact
+    const sha1 = await request<string>(`${url}.sha1`).catch(() => undefined)
+    await download(url, this.installer, undefined, progressCallback, { sha1 })
+    this.log(`Installing forge ${forgeVersion}...`)
+    await this.install(data =>
+      data
+        .split(/\r?\n/)
+        .filter(line => !!line)
+        .forEach(line => this.log(line, false))
+    )
+    await rm(this.installer, { force: true })
+    await rm(`${this.installer}.log`, { force: true })
+    await this.getVersionInfo(true)
+  }
+
+  /**
+   * Runs the downloaded forge installer with `--installServer`
+   * @param installCallback Receives the installer output
+   */
+  install(installCallback?: (data: string) => void) {
+    const { installer, env } = this
+    return new Promise<void>((resolve, reject) => {
+      const process = spawn(
+        'java',
+        ['-jar', path.basename(installer), '--installServer'],
+        { cwd: this.path, env, windowsHide: true }
+      )
+
+      process.stdout.on('data', data => installCallback?.(String(data)))
+
+      process.on('error', err => {
+        reject(new Error(`Failed to install forge. ${err.message}`))
+      })
+
+      process.on('exit', (code, signal) => {
+        if (code === null)
+          reject(new Error(`Installer process exited with signal: ${signal}`))
+        else if (code !== 0)
+          reject(new Error(`Installer process exited with code: ${code}`))
+        else resolve()
+      })
+    })
+  }
+
+  async validateVersion() {
+    if (existsSync(this.argsFile) || this.forgeJar) return true
+    await this.getForgeVersion()
+    return existsSync(this.argsFile) || !!this.forgeJar
+  }
+
+  async getForgeVersion() {
+    if (this.#forgeVersion) return this.#forgeVersion
+    const manifest = await Versions.forgeManifest
+    if (!this.version) this.version = manifest.latest.release
+    const forgeVersion = await Versions.getForgeVersion(
+      this.version,
+      this.forge
+    )
+    if (!forgeVersion)
+      throw new Error(
+        `Unable to find a forge build for minecraft ${this.version}.`
+      )
+    if (!this.forge) this.forge = forgeVersion.slice(this.version.length + 1)
+    this.#forgeVersion = forgeVersion
+    return forgeVersion
+  }
+
+  get args() {
+    const { jvmArgs, argsFile, forgeJar } = this
+    //* Forge 1.17+ installs a run script that launches from an argument file
+    if (existsSync(argsFile))
+      return [
+        ...jvmArgs,
+        ...(existsSync(this.userArgsFile) ? ['@user_jvm_args.txt'] : []),
+        `@${path.relative(this.path, argsFile)}`,
+        '--nogui'
+      ]
+    return [...jvmArgs, '-jar', forgeJar || 'forge.jar', '--nogui']
+  }
+
+  /** The full forge version id, e.g. `1.20.1-47.2.0` */
+  get forgeVersion() {
+    return this.#forgeVersion || `${this.version}-${this.forge}`
+  }
+
+  /** The forge installer jar, removed once the server is installed */
+  get installer() {
+    return path.join(this.path, 'forge-installer.jar')
+  }
+
+  /** The argument file used by forge 1.17+ in place of a server jar */
+  get argsFile() {
+    return path.join(
+      this.path,
+      'libraries',
+      'net',
+      'minecraftforge',
+      'forge',
+      this.forgeVersion,
+      process.platform === 'win32' ? 'win_args.txt' : 'unix_args.txt'
+    )
+  }
+
+  get userArgsFile() {
+    return path.join(this.path, 'user_jvm_args.txt')
+  }
+
+  /** The forge jar used by versions before 1.17, if one has been installed */
+  get forgeJar() {
+    if (!existsSync(this.path)) return
+    return readdirSync(this.path).find(
+      file =>
+        file.startsWith(`forge-${this.forgeVersion}`) &&
+        file.endsWith('.jar') &&
+        !file.endsWith('-installer.jar')
+    )
+  }
+
+  /** The vanilla server jar downloaded by the forge installer */
+  get jar() {
+    const legacy = path.join(this.path, `minecraft_server.${this.version}.jar`)
+    if (existsSync(legacy)) return legacy
+    return path.join(
+      this.path,
+      'libraries',
+      'net',
+      'minecraft',
+      'server',
+      this.version || '',
+      `server-${this.version}.jar`
+    )
+  }
+}
@@ -3,18 +3,38 @@ import EventEmitter from 'events'
 import { existsSync } from 'fs'
 import { mkdir, readFile, writeFile } from 'fs/promises'
 import { EOL } from 'os'
-import path from 'path'
+import path, { delimiter, relative } from 'path'
 import {
+  compareVersions,
   DEFAULT_JAVA_PATH,
   IOptions,
+  JavaVersionError,
   IServerLog,
+  LogType,
+  RestartPolicy,
+  RestartReason,
   ServerStateError,
   ServerStatus
 } from '../shared'
-import { download, request } from '../request'
-import Versions, { IVersion, IVersionManifest } from '../versions'
+import { download } from '../request'
+import Versions, { IVersionManifest } from '../versions'
 import Properties from '../properties'
+import JavaRuntimes, { IJavaRuntime } from '../java'
 import { promisify } from 'util'
+import { randomBytes } from 'crypto'
+import Rcon, { IRconOptions } from '../rcon'
+import { IPlayerList, parseResponse } from '../responses'
+import { ILogFormat, LogParser, VanillaLogFormat } from '../logs'
+import { IPlayer, parsePlayerEvent } from '../players'
+import { IPingOptions, ping, pingLegacy } from '../ping'
+import { IQueryOptions, query } from '../query'
+import Scheduler from '../scheduler'
+import Backups, { IBackupOptions } from '../backups'
+import Datapacks from '../datapacks'
+import ResourcePackHost, { ISetResourcePackOptions } from '../resourcePack'
+import ProfileResolver, { IProfileResolver } from '../profiles'
+import { Bans, IpBans, Ops, Whitelist } from '../playerLists'
+import Metrics, { IMetrics } from '../metrics'
 
 const exec = promisify(execCallback)
 
@@ -34,11 +54,36 @@ export interface IServerVersionInfo {
   stable?: boolean
 }
 
+export interface ICaptureOptions {
+  /** How long to capture output for in milliseconds */
+  window: number
+  /** Ends the capture early once a line matches */
+  until?: RegExp
+}
+
+export interface IStopOptions {
+  /** How long to wait for the server to stop before sending SIGTERM in milliseconds, 0 waits forever */
+  timeout: number
+  /** How long to wait after SIGTERM before sending SIGKILL in milliseconds, 0 waits forever */
+  killTimeout: number
+  /** Sends SIGTERM straight away instead of the stop command, the server still saves the worlds */
+  force: boolean
+}
+
 export interface ServerEvents {
   stateUpdate: (state: ServerStatus) => void
   message: (message: IServerLog) => void
   eula: () => void
   download: (file: string, current: number, total: number) => void
+  playerJoin: (player: IPlayer) => void
+  playerLeave: (player: IPlayer, reason: string) => void
+  chat: (player: string, message: string) => void
+  death: (player: string, message: string) => void
+  advancement: (player: string, advancement: string) => void
+  kick: (player: string, reason: string) => void
+  restarting: (reason: RestartReason, attempt: number, delay: number) => void
+  gaveUp: (restarts: number) => void
+  metrics: (metrics: IMetrics) => void
 }
 
 export interface Server {
@@ -51,40 +96,117 @@ export interface Server {
 }
 
 export class Server extends EventEmitter {
-  version?: string
+  #version?: string
   minMemory: number
   softMaxMemory: number
   maxMemory: number
   javaPath: string
   path: string
+  autoJava: boolean
+  enableRcon: boolean
+  restartPolicy: RestartPolicy
+  maxRestarts: number
+  restartWindow: number
+  restartDelay: number
+  maxRestartDelay: number
+  watchdogTimeout: number
+  watchdogPingInterval: number
+  watchdogMaxFailedPings: number
+  rcon?: Rcon
+  #attached = false
+  #capture = Promise.resolve()
   #state: ServerStatus = 'STOPPED'
   #logs: IServerLog[] = []
+  #players = new Map<string, IPlayer>()
+  /** Details logged while a player is logging in, before they join the game */
+  #joining = new Map<string, Partial<IPlayer>>()
+  /** When the server was restarted within the restart window */
+  #restarts: number[] = []
+  #restartTimer?: NodeJS.Timeout
+  #stopRequested = false
+  #stopOnExit = true
+  #hung = false
+  #lastOutput = 0
+  #watchdog: NodeJS.Timeout[] = []
+  #javaRuntime?: { javaPath: string; runtime: Promise<IJavaRuntime> }
   properties: Properties
+  scheduler: Scheduler
+  backups: Backups
+  datapacks: Datapacks
+  resourcePack: ResourcePackHost
+  whitelist: Whitelist
+  ops: Ops
+  bans: Bans
+  ipBans: IpBans
+  metrics: Metrics
+  /** Resolves player names to UUIDs for the player lists, it can be replaced with any resolver */
+  profileResolver: IProfileResolver = new ProfileResolver()
 
   protected process?: ChildProcess
+  /** @deprecated Lines are split and parsed with `LogFormats`, this is no longer used */
   static PrefixPattern =
     /(\[\d+:\d+:\d+\] \[(?:ServerMain|Server thread|main)\/)/g
-  static DonePattern =
-    /\[\d+:\d+:\d+\] \[(ServerMain|Server thread|main)\/INFO\]: Done \([^)]+\)!/i
-  static StopPattern =
-    /\[\d+:\d+:\d+\] \[(ServerMain|Server thread|main)\/INFO\]: Stopping server/i
+  static DonePattern = /^Done \([^)]+\)!/i
+  static StopPattern = /^Stopping server/i
   static EulaPattern =
-    /\[\d+:\d+:\d+\] \[(ServerMain|Server thread|main)\/INFO\]: You need to agree to the EULA in order to run the server\. Go to eula\.txt for more info\.(?:\n|\r\n)?/i
+    /^You need to agree to the EULA in order to run the server\. Go to eula\.txt for more info\./i
+  static StopCommandPattern = /^\/?stop\s*$/i
+  /** @deprecated The level is parsed with `LogFormats`, use the `type` of the log instead */
   static WarnPattern = /\/WARN\]/i
+  /** @deprecated The level is parsed with `LogFormats`, use the `type` of the log instead */
   static ErrorPattern = /\/ERROR\]/i
+  /** Whether live servers are stopped when the process receives SIGINT or SIGTERM or is about to exit */
+  static StopOnExit = true
+  static LogFormats: ILogFormat[] = [VanillaLogFormat]
+
+  /** How long output is captured for after a command when rcon isn't connected, in milliseconds */
+  static CaptureWindow = 500
 
   static DefaultOptions: IOptions = {
     minMemory: 256,
     softMaxMemory: 512,
     maxMemory: 1024,
     javaPath: DEFAULT_JAVA_PATH,
-    path: './server'
+    path: './server',
+    autoJava: false,
+    enableRcon: false,
+    restartPolicy: 'never',
+    maxRestarts: 3,
+    restartWindow: 10 * 60 * 1000,
+    restartDelay: 5000,
+    maxRestartDelay: 60000,
+    watchdogTimeout: 0,
+    watchdogPingInterval: 0,
+    watchdogMaxFailedPings: 3,
+    resourcePack: {}
+  }
+
+  static DefaultStopOptions: IStopOptions = {
+    timeout: 60000,
+    killTimeout: 10000,
+    force: false
   }
 
   constructor(version?: string, options?: Partial<IOptions>) {
     super()
-    const { minMemory, maxMemory, softMaxMemory, javaPath, path } =
-      Object.assign(structuredClone(Server.DefaultOptions), options)
+    const {
+      minMemory,
+      maxMemory,
+      softMaxMemory,
+      javaPath,
+      path,
+      autoJava,
+      enableRcon,
+      restartPolicy,
+      maxRestarts,
+      restartWindow,
+      restartDelay,
+      maxRestartDelay,
+      watchdogTimeout,
+      watchdogPingInterval,
+      watchdogMaxFailedPings,
+      resourcePack
+    } = Object.assign(structuredClone(Server.DefaultOptions), options)
 
     this.version = version
     this.minMemory = minMemory
@@ -92,7 +214,49 @@ export class Server extends EventEmitter {
     this.maxMemory = maxMemory
     this.javaPath = javaPath
     this.path = path
-    this.properties = new Properties(this.prop)
+    this.autoJava = autoJava
+    this.enableRcon = enableRcon
+    this.restartPolicy = restartPolicy
+    this.maxRestarts = maxRestarts
+    this.restartWindow = restartWindow
+    this.restartDelay = restartDelay
+    this.maxRestartDelay = maxRestartDelay
+    this.watchdogTimeout = watchdogTimeout
+    this.watchdogPingInterval = watchdogPingInterval
+    this.watchdogMaxFailedPings = watchdogMaxFailedPings
+    this.properties = new Properties(this.prop, version)
+    this.scheduler = new Scheduler(this)
+    this.backups = new Backups(this)
+    this.datapacks = new Datapacks(this)
+    this.resourcePack = new ResourcePackHost(this, resourcePack)
+    this.whitelist = new Whitelist(this)
+    this.ops = new Ops(this)
+    this.bans = new Bans(this)
+    this.ipBans = new IpBans(this)
+    this.metrics = new Metrics(this)
+
+    //* Connect to rcon once the server is ready and disconnect when it stops
+    this.on('stateUpdate', state => {
+      if (this.#attached || !this.enableRcon) return
+      if (state === 'RUNNING')
+        this.connectRcon().catch(err =>
+          this.error(`Failed to connect to rcon. ${err.message}`)
+        )
+      else if (state !== 'STARTING') this.rcon?.close()
+    })
+
+    //* Watch for the server hanging while it's running
+    this.on('stateUpdate', state => {
+      if (state === 'RUNNING') this.#startWatchdog()
+      else this.#stopWatchdog()
+    })
+
+    //* Nobody is online once the server is down
+    this.on('stateUpdate', state => {
+      if (state !== 'STOPPED' && state !== 'CRASHED') return
+      this.#players.clear()
+      this.#joining.clear()
+    })
   }
 
   async downloadJar(
@@ -104,17 +268,13 @@ export class Server extends EventEmitter {
     if (!this.version) this.version = versions.latest.release
     const versionInfo = versions.versions.find(v => v.id === this.version)
     if (!versionInfo) throw new Error('Unable to find version info.')
-    const version = await request<IVersion>(versionInfo.url)
+    const version = await Versions.getVersion(versionInfo)
     if ('status' in version)
       throw new Error('Failed to download version from version info')
     if (!version.downloads.server)
       throw new Error("The version provided doesn't have a server jar")
-    await download(
-      version.downloads.server.url,
-      this.jar,
-      undefined,
-      progressCallback
-    )
+    const { url, sha1, size } = version.downloads.server
+    await download(url, this.jar, undefined, progressCallback, { sha1, size })
     await this.getVersionInfo(true)
   }
 
@@ -126,7 +286,8 @@ export class Server extends EventEmitter {
     }
     if (!existsSync(jar)) return
     if (!existsSync(info) || force) {
-      const { stdout } = await exec('jar -xvf server.jar version.json', {
+      const file = relative(path, jar)
+      const { stdout } = await exec(`jar -xvf "${file}" version.json`, {
         env,
         cwd: path,
         windowsHide: true
@@ -142,6 +303,89 @@ export class Server extends EventEmitter {
     return data
   }
 
+  /**
+   * Gets the java major version required by the server version
+   */
+  async getJavaVersion() {
+    const info = await this.getVersionInfo().catch(() => undefined)
+    if (info?.java_version) return info.java_version
+    const versions = await Versions.manifest
+    const id = this.version || versions.latest.release
+    const versionInfo = versions.versions.find(v => v.id === id)
+    if (versionInfo) {
+      const version = await Versions.getVersion(versionInfo)
+      if (version.javaVersion) return version.javaVersion.majorVersion
+    }
+    //* Versions older than 1.17 don't list a java version and run on java 8
+    return 8
+  }
+
+  /**
+   * Downloads a java runtime matching the server version and uses it to run the server
+   */
+  async installJava(
+    force = false,
+    progressCallback?: (current: number, total: number) => void
+  ) {
+    const majorVersion = await this.getJavaVersion()
+    this.javaPath = await JavaRuntimes.install(
+      majorVersion,
+      force,
+      progressCallback
+    )
+    return this.javaPath
+  }
+
+  protected async prepareJava() {
+    this.log('Preparing java runtime...')
+    try {
+      const javaPath = await this.installJava(false, (cur, tot) =>
+        this.emit('download', JavaRuntimes.cachePath, cur, tot)
+      )
+      this.log(`Using java from ${javaPath}`)
+    } catch (err) {
+      this.state = 'CRASHED'
+      throw err
+    }
+  }
+
+  /**
+   * Gets the vendor, version and architecture of the java runtime used to run the server
+   * @param force Whether to inspect the runtime again instead of using the cached result
+   */
+  async getJavaRuntime(force = false) {
+    const { javaPath } = this
+    if (
+      force ||
+      !this.#javaRuntime ||
+      this.#javaRuntime.javaPath !== javaPath
+    ) {
+      const runtime = JavaRuntimes.inspect(this.env)
+      this.#javaRuntime = { javaPath, runtime }
+      runtime.catch(() => (this.#javaRuntime = undefined))
+    }
+    return this.#javaRuntime.runtime
+  }
+
+  /**
+   * Ensures the java runtime can run the server version
+   * @throws {JavaVersionError} If the runtime is older than the version requires
+   */
+  async checkJava() {
+    const runtime = await this.getJavaRuntime(true)
+    const info = await this.getVersionInfo()
+    this.log(
+      `Found java ${runtime.version} (${runtime.vendor}, ${runtime.bits}-bit)`
+    )
+    if (info?.java_version && runtime.majorVersion < info.java_version)
+      throw new JavaVersionError(info.java_version, runtime.majorVersion)
+    if (runtime.bits === 32 && this.maxMemory > 1536)
+      this.warn(
+        'A 32-bit java runtime was found, the max memory may be more than it can allocate.'
+      )
+    return runtime
+  }
+
   async validateVersion() {
     const info = await this.getVersionInfo()
     return this.version === info?.id
@@ -157,11 +401,20 @@ export class Server extends EventEmitter {
     return info?.pack_version?.resource !== undefined
   }
 
+  /**
+   * Serves a resource pack from a folder or zip and sets the resource pack properties, see {@link ResourcePackHost.set}
+   */
+  setResourcePack(source: string, options?: Partial<ISetResourcePackOptions>) {
+    return this.resourcePack.set(source, options)
+  }
+
   async start() {
-    const { path, jar, env, args } = this
+    const { path, jar } = this
+    let starting = false
     try {
       if (!this.canStart) throw new ServerStateError(this.state)
       this.state = 'STARTING'
+      starting = true
       this.log('Attempting to start server...')
 
       //* If the server directory doesn't exist then create the directory
@@ -170,86 +423,322 @@ export class Server extends EventEmitter {
         await mkdir(path, { recursive: true })
       }
 
+      if (this.autoJava) await this.prepareJava()
+
       const isCorrectVersion = await this.validateVersion()
 
       //* If the jar doesn't exist then download the jar file
       if (!isCorrectVersion) {
         this.log('Downloading server jar...')
-        try {
-          await this.downloadJar(true, (cur, tot) =>
-            this.emit('download', jar, cur, tot)
-          )
-        } catch (err) {
-          this.state = 'CRASHED'
-          throw err
-        }
+        await this.downloadJar(true, (cur, tot) =>
+          this.emit('download', jar, cur, tot)
+        )
       }
 
-      this.log('Starting child process...')
-      const process = spawn('java', args, { env, cwd: path, windowsHide: true })
+      await this.checkJava()
 
-      process.on('error', err => {
-        this.error(`Failed to start the server. ${err.message}`)
-        this.state = 'CRASHED'
-      })
+      //* The properties have to point at the pack before rcon or the server reads them
+      await this.resourcePack
+        .restore()
+        .catch(err =>
+          this.warn(`Failed to serve the resource pack. ${err.message}`)
+        )
 
-      //* Message Handler
-      process.stdout.on('data', data => {
-        //* Create an array of the messages received
-        const messages = String(data)
-          .replace(Server.PrefixPattern, '\n$&')
-          .split('\n')
-          .filter(m => !!m)
-        //* Loop over the messages
-        messages.forEach(message => {
-          //* Determine if the message was a warning, error or info
-          Server.WarnPattern.test(message)
-            ? this.warn(message, false)
-            : Server.ErrorPattern.test(message)
-            ? this.error(message, false)
-            : this.log(message, false)
-          //* Check if the message is a key message (done, stop or eula)
-          if (Server.DonePattern.test(message)) {
-            this.log('Server is running...')
-            this.state = 'RUNNING'
-            this.log('Loading properties...')
-            this.properties
-              .loadProperties()
-              .then(() => this.log('Successfully loaded properties.'))
-              .catch(() => this.error('Failed to load properties.'))
-          } else if (Server.StopPattern.test(message)) {
-            this.log('Server is stopping...')
-            this.state = 'STOPPING'
-          } else if (Server.EulaPattern.test(message)) {
-            this.warn(
-              'Server was unable to start, the user must accept the EULA...'
-            )
-            this.state = 'STOPPING'
-            this.emit('eula')
-          }
-        })
-      })
+      if (this.enableRcon) await this.setupRcon()
+      if (this.checkCancelled()) return
 
-      //* Handle server shutdown
-      process.on('exit', (code, signal) => {
-        this.state = code === 0 ? 'STOPPED' : 'CRASHED'
-        if (code === null) this.error(`Server exited with signal: ${signal}`)
-        else if (code !== 0) this.error(`Server exited with code: ${code}`)
-        else this.log('Server Stopped')
-        this.process = undefined
+      this.log('Starting child process...')
+      const process = spawn('java', this.args, {
+        env: this.env,
+        cwd: path,
+        windowsHide: true
       })
 
+      this.handleProcess(process)
       this.process = process
     } catch (err: any) {
+      //* A start that fails while preparing crashes, so it can be started or stopped again
+      if (starting && this.state === 'STARTING') this.state = 'CRASHED'
       this.error(err.message)
       throw err
     }
   }
 
-  async execute(command: string) {
+  /**
+   * Parses the output of the server process and tracks its state
+   * @param process The server process
+   */
+  protected handleProcess(process: ChildProcess) {
+    const { LogFormats, DonePattern, StopPattern, EulaPattern } = this
+      .constructor as typeof Server
+
+    process.on('error', err => {
+      this.error(`Failed to start the server. ${err.message}`)
+      this.state = 'CRASHED'
+    })
+
+    //* Message Handler
+    const handleLog = (log: IServerLog) => {
+      this.#lastOutput = Date.now()
+      this.#pushLog(log)
+      this.#handlePlayerLog(log)
+      //* Check if the message is a key message (done, stop or eula)
+      if (DonePattern.test(log.message)) {
+        this.log('Server is running...')
+        this.state = 'RUNNING'
+        this.log('Loading properties...')
+        this.properties
+          .loadProperties()
+          .then(() => this.log('Successfully loaded properties.'))
+          .catch(() => this.error('Failed to load properties.'))
+      } else if (StopPattern.test(log.message)) {
+        this.log('Server is stopping...')
+        this.state = 'STOPPING'
+      } else if (EulaPattern.test(log.message)) {
+        this.warn(
+          'Server was unable to start, the user must accept the EULA...'
+        )
+        this.#stopRequested = true
+        this.state = 'STOPPING'
+        this.emit('eula')
+      }
+    }
+    const stdout = new LogParser(LogFormats, 'stdout', handleLog)
+    const stderr = new LogParser(LogFormats, 'stderr', handleLog)
+    process.stdout?.on('data', data => stdout.push(String(data)))
+    process.stderr?.on('data', data => stderr.push(String(data)))
+    this.#track(process)
+
+    //* Handle server shutdown
+    process.on('exit', (code, signal) => {
+      stdout.flush()
+      stderr.flush()
+      //* The JVM exits with 143 after SIGTERM, which is a clean stop when the server was asked to stop
+      const terminated =
+        this.#stopRequested && (signal === 'SIGTERM' || code === 143)
+      const crashed = code !== 0 && !terminated
+      this.state = crashed ? 'CRASHED' : 'STOPPED'
+      if (!crashed) this.log('Server Stopped')
+      else if (code === null) this.error(`Server exited with signal: ${signal}`)
+      else this.error(`Server exited with code: ${code}`)
+      this.process = undefined
+      this.#supervise(crashed)
+    })
+  }
+
+  /**
+   * Restarts the server after it exits according to the restart policy
+   * @param crashed Whether the server exited with an error
+   */
+  #supervise(crashed: boolean) {
+    const reason: RestartReason = this.#hung
+      ? 'hung'
+      : crashed
+      ? 'crashed'
+      : 'stopped'
+    const stopRequested = this.#stopRequested
+    this.#hung = false
+    this.#stopRequested = false
+    if (
+      stopRequested ||
+      this.restartPolicy === 'never' ||
+      (this.restartPolicy === 'on-crash' && reason === 'stopped')
+    )
+      return
+
+    const now = Date.now()
+    this.#restarts = this.#restarts.filter(
+      time => now - time < this.restartWindow
+    )
+    if (this.#restarts.length >= this.maxRestarts) {
+      const restarts = this.#restarts.length
+      this.#restarts = []
+      this.error(
+        `Server was restarted ${restarts} times within ${
+          this.restartWindow / 1000
+        }s, giving up...`
+      )
+      this.emit('gaveUp', restarts)
+      return
+    }
+
+    const delay = Math.min(
+      this.restartDelay * 2 ** this.#restarts.length,
+      this.maxRestartDelay
+    )
+    this.#restarts.push(now)
+    this.warn(`Restarting the server in ${delay / 1000}s...`)
+    this.emit('restarting', reason, this.#restarts.length, delay)
+    this.#restartTimer = setTimeout(() => {
+      this.#restartTimer = undefined
+      //* A failed start crashes and counts as another crash, a start that was refused leaves the state alone
+      this.start().catch(
+        () => this.state === 'CRASHED' && this.#supervise(true)
+      )
+    }, delay)
+  }
+
+  /**
+   * Checks whether `stop()` was called while the server was preparing to start, the server is marked as stopped if it was
+   * @returns Whether the start was cancelled
+   */
+  protected checkCancelled() {
+    if (!this.#stopRequested) return false
+    this.#stopRequested = false
+    this.warn('Server start was cancelled.')
+    this.state = 'STOPPED'
+    return true
+  }
+
+  /**
+   * Whether the server is stopped when the process receives SIGINT or SIGTERM or is about to exit, `Server.StopOnExit` turns this off for every server
+   */
+  get stopOnExit() {
+    return this.#stopOnExit
+  }
+
+  set stopOnExit(value: boolean) {
+    this.#stopOnExit = value
+    //* A server that is already running is tracked again once it restarts
+    if (!value) removeLiveServer(this)
+  }
+
+  /** Keeps track of the process so it's stopped before the parent process exits */
+  #track(process: ChildProcess) {
+    if (!Server.StopOnExit || !this.#stopOnExit) return
+    addLiveServer(this)
+    process.once('exit', () => removeLiveServer(this))
+  }
+
+  /** Cancels a pending restart */
+  cancelRestart() {
+    clearTimeout(this.#restartTimer)
+    this.#restartTimer = undefined
+  }
+
+  /**
+   * Kills the server if it stops printing output or answering pings, it's then restarted unless the restart policy is `never`
+   */
+  #startWatchdog() {
+    this.#stopWatchdog()
+    if (this.#attached) return
+    const { watchdogTimeout, watchdogPingInterval, watchdogMaxFailedPings } =
+      this
+    this.#lastOutput = Date.now()
+    if (watchdogTimeout > 0) {
+      const timer = setInterval(() => {
+        if (Date.now() - this.#lastOutput > watchdogTimeout)
+          this.#killHung(`nothing was printed for ${watchdogTimeout / 1000}s`)
+      }, Math.min(watchdogTimeout, 1000))
+      this.#watchdog.push(timer)
+    }
+    if (watchdogPingInterval > 0) {
+      let failed = 0
+      let pinging = false
+      const timer = setInterval(() => {
+        if (pinging) return
+        pinging = true
+        this.ping({ timeout: watchdogPingInterval })
+          .then(() => (failed = 0))
+          .catch(() => {
+            if (++failed >= watchdogMaxFailedPings)
+              this.#killHung(`${failed} pings failed in a row`)
+          })
+          .finally(() => (pinging = false))
+      }, watchdogPingInterval)
+      this.#watchdog.push(timer)
+    }
+  }
+
+  #stopWatchdog() {
+    this.#watchdog.forEach(timer => clearInterval(timer))
+    this.#watchdog = []
+  }
+
+  #killHung(reason: string) {
+    if (!this.process || this.state !== 'RUNNING') return
+    this.#stopWatchdog()
+    this.error(`Server is not responding, ${reason}. Killing the server...`)
+    this.#hung = true
+    this.process.kill('SIGKILL')
+  }
+
+  #handlePlayerLog(log: IServerLog) {
+    const event = parsePlayerEvent(log.message, name => this.#players.has(name))
+    if (!event) return
+    const { name } = event
+    switch (event.type) {
+      case 'uuid':
+      case 'login': {
+        const { type, ...details } = event
+        this.#joining.set(name, { ...this.#joining.get(name), ...details })
+        break
+      }
+      case 'join': {
+        const player = {
+          ...this.#joining.get(name),
+          name,
+          joinedAt: log.timestamp
+        }
+        this.#joining.delete(name)
+        this.#players.set(name, player)
+        this.emit('playerJoin', player)
+        break
+      }
+      case 'leave': {
+        //* Newer versions log both that the player lost connection and left the game
+        const player = this.#players.get(name)
+        this.#joining.delete(name)
+        if (!player) break
+        this.#players.delete(name)
+        this.emit('playerLeave', player, event.reason)
+        break
+      }
+      case 'chat':
+        this.emit('chat', name, event.message)
+        break
+      case 'death':
+        this.emit('death', name, event.message)
+        break
+      case 'advancement':
+        this.emit('advancement', name, event.advancement)
+        break
+      case 'kick':
+        this.emit('kick', name, event.reason)
+        break
+    }
+  }
+
+  /**
+   * Reconciles the online players with the output of `list`, players that joined or left without being logged are added or removed
+   */
+  async refreshPlayers() {
+    const list = await this.executeAndParse<IPlayerList>('list')
+    if (!list) return this.players
+    for (const name of this.#players.keys())
+      if (!list.players.includes(name)) this.#players.delete(name)
+    list.players.forEach(name => {
+      if (!this.#players.has(name))
+        this.#players.set(name, { name, joinedAt: new Date() })
+    })
+    return this.players
+  }
+
+  /**
+   * Sends a command to the server, through rcon when it's connected
+   * @param quiet Doesn't log the command or its response, the server still logs commands written to stdin
+   * @returns The response when the command was sent through rcon
+   */
+  async execute(command: string, quiet = false): Promise<string | undefined> {
     try {
       if (!this.canStop) throw new ServerStateError(this.state)
-      this.log(command)
+      if (Server.StopCommandPattern.test(command)) this.#stopRequested = true
+      if (!quiet) this.log(command)
+      if (this.rcon?.connected) {
+        const response = await this.rcon.execute(command)
+        if (response && !quiet) this.log(response, false)
+        return response
+      }
       this.process?.stdin?.write(command)
       this.process?.stdin?.write(EOL)
     } catch (err: any) {
@@ -258,26 +747,307 @@ export class Server extends EventEmitter {
     }
   }
 
-  async stop() {
+  /**
+   * Sends a command to the server and resolves with its response
+   *
+   * Without rcon the command is written to stdin and the output that follows it is captured instead
+   * @param command The command to send
+   * @param options How long to capture output for when rcon isn't connected
+   */
+  async executeWithResponse(
+    command: string,
+    options?: Partial<ICaptureOptions>
+  ) {
+    if (this.rcon?.connected) return (await this.execute(command)) || ''
+    const logs = await this.captureOutput(command, options)
+    return logs.map(log => log.message).join('\n')
+  }
+
+  /**
+   * Sends a command and parses its response, see `ResponseParsers` for the supported commands
+   * @param command The command to send
+   * @param options How long to capture output for when rcon isn't connected
+   */
+  async executeAndParse<T = unknown>(
+    command: string,
+    options?: Partial<ICaptureOptions>
+  ) {
+    const response = await this.executeWithResponse(command, options)
+    return parseResponse(command, response) as T | undefined
+  }
+
+  /**
+   * Writes a command to stdin and captures the server output that follows it
+   * @param command The command to send
+   * @param options The capture window and an optional sentinel that ends the capture early
+   */
+  async captureOutput(command: string, options?: Partial<ICaptureOptions>) {
+    const { window, until } = {
+      window: Server.CaptureWindow,
+      ...options
+    }
+    //* Commands share stdout so their output is captured one at a time
+    const previous = this.#capture
+    let release = () => {}
+    this.#capture = new Promise<void>(resolve => (release = resolve))
+    await previous
+    const logs: IServerLog[] = []
+    let listener = (log: IServerLog) => {}
     try {
-      if (!this.canStop) throw new ServerStateError(this.state)
+      const captured = new Promise<IServerLog[]>(resolve => {
+        const timer = setTimeout(() => resolve(logs), window)
+        listener = log => {
+          if (log.stream === 'internal') return
+          logs.push(log)
+          if (until?.test(log.content)) {
+            clearTimeout(timer)
+            resolve(logs)
+          }
+        }
+      })
+      this.on('message', listener)
+      await this.execute(command)
+      return await captured
+    } finally {
+      this.off('message', listener)
+      release()
+    }
+  }
+
+  /**
+   * Gets the status of the server with a Server List Ping, versions older than 1.7 use the legacy ping
+   * @param options The host defaults to `server-ip` and the port to `server-port` from `server.properties`
+   */
+  async ping(options?: Partial<IPingOptions>) {
+    const host =
+      options?.host ?? ((await this.properties.get('server-ip')) || '127.0.0.1')
+    const port = options?.port ?? (await this.properties.get('server-port'))
+    const legacy = !!this.version && compareVersions(this.version, '1.7') < 0
+    return (legacy ? pingLegacy : ping)({ ...options, host, port })
+  }
+
+  /**
+   * Gets the full stat of the server with the query protocol, `enable-query` must be set in `server.properties`
+   * @param options The host defaults to `server-ip` and the port to `query.port` from `server.properties`
+   */
+  async query(options?: Partial<IQueryOptions>) {
+    const host =
+      options?.host ?? ((await this.properties.get('server-ip')) || '127.0.0.1')
+    const port = options?.port ?? (await this.properties.get('query.port'))
+    return query({ ...options, host, port })
+  }
+
+  /**
+   * Enables rcon in `server.properties`, a password is generated if one isn't set
+   */
+  async setupRcon() {
+    const password =
+      (await this.properties.get('rcon.password')) ||
+      randomBytes(16).toString('hex')
+    const port = await this.properties.get('rcon.port')
+    await this.properties.setProperties([
+      { name: 'enable-rcon', value: 'true' },
+      { name: 'rcon.port', value: String(port) },
+      {
+        name: 'rcon.password',
+        value: this.properties.serialize('rcon.password', password)
+      }
+    ])
+  }
+
+  /**
+   * Connects to rcon using the port and password from `server.properties` unless they're provided
+   */
+  async connectRcon(options?: Partial<IRconOptions>) {
+    const port = options?.port ?? (await this.properties.get('rcon.port'))
+    const password =
+      options?.password ?? (await this.properties.get('rcon.password'))
+    if (!this.rcon) {
+      this.rcon = new Rcon()
+      this.rcon.on('error', err => this.warn(`Rcon: ${err.message}`))
+      this.rcon.on('reconnecting', (attempt, delay) =>
+        this.warn(`Rcon disconnected, reconnecting in ${delay}ms...`)
+      )
+    }
+    Object.assign(this.rcon.options, options, { port, password })
+    this.log('Connecting to rcon...')
+    await this.rcon.connect()
+    this.log('Connected to rcon.')
+    return this.rcon
+  }
+
+  /**
+   * Attaches to a server that wasn't started by this instance through rcon
+   */
+  async attach(options?: Partial<IRconOptions>) {
+    try {
+      if (!this.canStart) throw new ServerStateError(this.state)
+      await this.connectRcon(options)
+      this.#attached = true
+      this.state = 'RUNNING'
+      //* Players that joined before attaching weren't logged
+      await this.refreshPlayers().catch(() => {})
+    } catch (err: any) {
+      this.error(err.message)
+      throw err
+    }
+  }
+
+  /**
+   * Disconnects from a server that was attached to
+   */
+  async detach() {
+    if (!this.#attached) return
+    await this.rcon?.close()
+    this.#attached = false
+    this.state = 'STOPPED'
+  }
+
+  /**
+   * Stops the server and resolves once the process has exited
+   *
+   * The server is sent SIGTERM if it doesn't stop within the timeout and SIGKILL if it still hasn't exited after the kill timeout. A server that is still starting is stopped without waiting for it to finish starting.
+   * @throws {ServerStateError} If the server isn't running or starting
+   */
+  async stop(options?: Partial<IStopOptions>) {
+    const { timeout, killTimeout, force } = Object.assign(
+      structuredClone(Server.DefaultStopOptions),
+      options
+    )
+    try {
+      this.cancelRestart()
+      if (this.canStart) throw new ServerStateError(this.state)
       this.log('Attempting to stop the server...')
-      this.process?.stdin?.write('stop')
-      this.process?.stdin?.write(EOL)
+      this.#stopRequested = true
+      if (this.#attached) {
+        await this.rcon?.execute('stop')
+        return this.detach()
+      }
+      const process = this.process
+      if (!process) {
+        //* The server is still preparing to start, so it stops before spawning the process
+        await this.#waitForState(['STOPPED', 'CRASHED'])
+        this.#stopRequested = false
+        return
+      }
+      const exited = new Promise<void>(resolve =>
+        process.once('exit', () => resolve())
+      )
+      const waitForExit = (ms: number) => {
+        if (ms <= 0) return exited.then(() => true)
+        let timer: NodeJS.Timeout | undefined
+        return Promise.race([
+          exited.then(() => true),
+          new Promise<boolean>(resolve => {
+            timer = setTimeout(() => resolve(false), ms)
+          })
+        ]).finally(() => clearTimeout(timer))
+      }
+
+      //* The stop command is only handled once the server is running
+      if (!force && this.state === 'RUNNING') {
+        process.stdin?.write('stop')
+        process.stdin?.write(EOL)
+      }
+      const graceful = !force && this.state !== 'STARTING'
+      if (graceful && (await waitForExit(timeout))) return
+      if (graceful)
+        this.warn(
+          `Server didn't stop within ${timeout / 1000}s, sending SIGTERM...`
+        )
+      process.kill('SIGTERM')
+      if (await waitForExit(killTimeout)) return
+      this.error(
+        `Server didn't exit within ${killTimeout / 1000}s, sending SIGKILL...`
+      )
+      process.kill('SIGKILL')
+      await exited
     } catch (err: any) {
       this.error(err.message)
       throw err
     }
   }
 
-  async quit() {
+  /**
+   * Sends a signal to the server process, the server saves the worlds on SIGTERM but not on SIGKILL
+   * @returns Whether the signal was sent
+   */
+  kill(signal: NodeJS.Signals = 'SIGTERM') {
+    return this.process?.kill(signal) ?? false
+  }
+
+  /**
+   * Backs up the worlds and plugin data, saving is disabled while the files are archived if the server is running
+   * @param options Whether to only archive the files that changed since the previous backup and extra folders to back up
+   */
+  async backup(options?: Partial<IBackupOptions>) {
+    try {
+      this.log('Creating backup...')
+      return await this.backups.create(options)
+    } catch (err: any) {
+      this.error(`Failed to create backup. ${err.message}`)
+      throw err
+    }
+  }
+
+  /** Gets the backups from oldest to newest */
+  listBackups() {
+    return this.backups.list()
+  }
+
+  /**
+   * Restores the worlds and plugin data from a backup
+   * @throws {ServerStateError} If the server is running
+   */
+  async restore(id: string) {
+    try {
+      return await this.backups.restore(id)
+    } catch (err: any) {
+      this.error(err.message)
+      throw err
+    }
+  }
+
+  /**
+   * Stops the server and starts it again once it has stopped
+   */
+  async restart() {
+    if (this.#attached)
+      throw new Error("A server that was attached to can't be restarted.")
+    await this.stop()
+    await this.start()
+  }
+
+  /**
+   * Stops the server if it's running or starting and cancels a pending restart
+   */
+  async quit(options?: Partial<IStopOptions>) {
+    this.cancelRestart()
     if (this.canStart) return
-    while (!this.canStop) continue
-    this.process?.stdin?.write('stop')
-    this.process?.stdin?.write(EOL)
+    return this.stop(options)
+  }
+
+  #waitForState(states: ServerStatus[]) {
+    return new Promise<ServerStatus>(resolve => {
+      if (states.includes(this.state)) return resolve(this.state)
+      const listener = (state: ServerStatus) => {
+        if (!states.includes(state)) return
+        this.off('stateUpdate', listener)
+        resolve(state)
+      }
+      this.on('stateUpdate', listener)
+    })
   }
 
+  /**
+   * Accepts or declines the EULA, `eula.txt` is created if the server hasn't created it yet
+   */
   async acceptEula(accept: boolean) {
+    if (!existsSync(this.eula)) {
+      await mkdir(this.path, { recursive: true })
+      await writeFile(this.eula, `eula=${accept}${EOL}`, 'utf-8')
+      return accept
+    }
     await readFile(this.eula, 'utf-8').then(content =>
       writeFile(
         this.eula,
@@ -289,62 +1059,79 @@ export class Server extends EventEmitter {
   }
 
   error(message: string, prefix = true) {
-    if (prefix)
-      message = `[${new Date().toLocaleTimeString(undefined, {
-        hour12: false,
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      })}] [MCServerJS] ${message}`
-    const log = { content: message, type: 'ERROR' } as IServerLog
-    this.emit('message', log)
-    return this.#logs.push(log)
+    return this.#write('ERROR', message, prefix)
   }
 
   warn(message: string, prefix = true) {
-    if (prefix)
-      message = `[${new Date().toLocaleTimeString(undefined, {
-        hour12: false,
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      })}] [MCServerJS] ${message}`
-    const log = { content: message, type: 'WARN' } as IServerLog
-    this.emit('message', log)
-    return this.#logs.push(log)
+    return this.#write('WARN', message, prefix)
   }
 
   log(message: string, prefix = true) {
-    if (prefix)
-      message = `[${new Date().toLocaleTimeString(undefined, {
-        hour12: false,
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      })}] [MCServerJS] ${message}`
-    const log = { content: message, type: 'INFO' } as IServerLog
+    return this.#write('INFO', message, prefix)
+  }
+
+  /** The players that are currently online */
+  get players(): IPlayer[] {
+    return [...this.#players.values()]
+  }
+
+  /** The logs received since the server was created */
+  get logs(): readonly IServerLog[] {
+    return this.#logs
+  }
+
+  #write(type: LogType, message: string, prefix: boolean) {
+    const timestamp = new Date()
+    const time = timestamp.toLocaleTimeString(undefined, {
+      hour12: false,
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    //* Unprefixed messages are output from a child process, e.g. BuildTools
+    const log: IServerLog = prefix
+      ? {
+          type,
+          content: `[${time}] [MCServerJS] ${message}`,
+          message,
+          time,
+          timestamp,
+          logger: 'MCServerJS',
+          stream: 'internal'
+        }
+      : { type, content: message, message, timestamp, stream: 'stdout' }
+    return this.#pushLog(log)
+  }
+
+  #pushLog(log: IServerLog) {
     this.emit('message', log)
     return this.#logs.push(log)
   }
 
   get env() {
+    if (!this.javaPath) return { ...process.env }
+    //* Windows doesn't guarantee the casing of the path variable
+    const key =
+      Object.keys(process.env).find(key => key.toUpperCase() === 'PATH') ||
+      'PATH'
     return {
       ...process.env,
-      path: `${this.javaPath};${process.env.path}`
+      [key]: `${this.javaPath}${delimiter}${process.env[key] || ''}`
     }
   }
 
-  get args() {
+  get jvmArgs() {
     return [
       `-Xms${this.minMemory}M`,
       `-XX:SoftMaxHeapSize=${this.softMaxMemory}M`,
-      `-Xmx${this.maxMemory}M`,
-      '-jar',
-      'server.jar',
-      '--nogui'
+      `-Xmx${this.maxMemory}M`
     ]
   }
 
+  get args() {
+    return [...this.jvmArgs, '-jar', 'server.jar', '--nogui']
+  }
+
   get jar() {
     return path.join(this.path, 'server.jar')
   }
@@ -361,6 +1148,16 @@ export class Server extends EventEmitter {
     return path.join(this.path, 'server.properties')
   }
 
+  get version() {
+    return this.#version
+  }
+
+  set version(version: string | undefined) {
+    this.#version = version
+    //* Keep the supported properties in line with the server version
+    if (this.properties) this.properties.version = version
+  }
+
   get state() {
     return this.#state
   }
@@ -374,9 +1171,75 @@ export class Server extends EventEmitter {
     return this.state === 'STOPPED' || this.state === 'CRASHED'
   }
 
+  /** Whether the server was attached to instead of started by this instance */
+  get attached() {
+    return this.#attached
+  }
+
   get canStop() {
     return this.state === 'RUNNING'
   }
+
+  /** The id of the server process, undefined if it isn't running */
+  get pid() {
+    return this.process?.pid
+  }
+}
+
+//* Servers with a live process, they're stopped before the parent process exits so no server keeps holding its world
+const liveServers = new Set<Server>()
+let stoppingAll: Promise<void> | undefined
+
+function stopLiveServers() {
+  if (!stoppingAll)
+    stoppingAll = Promise.allSettled(
+      [...liveServers].map(server => server.stop())
+    ).then(() => {
+      stoppingAll = undefined
+      if (!liveServers.size) unhookProcess()
+    })
+  return stoppingAll
+}
+
+function handleSignal(signal: NodeJS.Signals) {
+  stopLiveServers().finally(() => {
+    //* Exit the way node would have without the hook, unless something else handles the signal
+    if (!process.listenerCount(signal)) process.kill(process.pid, signal)
+  })
+}
+
+function handleBeforeExit() {
+  if (liveServers.size) stopLiveServers()
+}
+
+//* Nothing async can run once the process is exiting, SIGTERM still lets the servers save
+function handleExit() {
+  for (const server of liveServers) server.kill('SIGTERM')
+}
+
+function hookProcess() {
+  process.on('SIGINT', handleSignal)
+  process.on('SIGTERM', handleSignal)
+  process.on('beforeExit', handleBeforeExit)
+  process.on('exit', handleExit)
+}
+
+function unhookProcess() {
+  process.off('SIGINT', handleSignal)
+  process.off('SIGTERM', handleSignal)
+  process.off('beforeExit', handleBeforeExit)
+  process.off('exit', handleExit)
+}
+
+function addLiveServer(server: Server) {
+  if (!liveServers.size) hookProcess()
+  liveServers.add(server)
+}
+
+function removeLiveServer(server: Server) {
+  liveServers.delete(server)
+  //* Keep handling signals until every server has stopped
+  if (!liveServers.size && !stoppingAll) unhookProcess()
 }
 
 export default Server
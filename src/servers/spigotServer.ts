@@ -1,35 +1,83 @@
 import path from 'path'
 import Server from './server'
-import { DEFAULT_JAVA_PATH, IOptions, ServerStateError } from '../shared'
+import { IOptions, ServerStateError } from '../shared'
 import { existsSync } from 'fs'
 import { download } from '../request'
 import Versions from '../versions'
 import { spawn } from 'child_process'
 import { mkdir, rename } from 'fs/promises'
+import YamlConfig from '../yamlConfig'
+import { BukkitLogFormat, VanillaLogFormat } from '../logs'
+import Plugins, { PluginError } from '../plugins'
 
-interface ISpigotOptions extends IOptions {
+export interface ISpigotOptions extends IOptions {
   buildPath: string
+  /** Whether to check the plugins before starting, the server doesn't start if a plugin can't be loaded */
+  checkPlugins: boolean
 }
 
 export default class SpigotServer extends Server {
+  static LogFormats = [BukkitLogFormat, VanillaLogFormat]
+
   buildPath: string
+  checkPlugins: boolean
+  plugins: Plugins
+  bukkit: YamlConfig
+  spigot: YamlConfig
+  #paper: YamlConfig
+  #paperGlobal: YamlConfig
+  #paperWorldDefaults: YamlConfig
 
   static DefaultOptions: ISpigotOptions = {
-    minMemory: 256,
-    softMaxMemory: 512,
-    maxMemory: 1024,
-    javaPath: DEFAULT_JAVA_PATH,
-    path: './server',
-    buildPath: './buildtools'
+    ...Server.DefaultOptions,
+    buildPath: './buildtools',
+    checkPlugins: true
   }
 
   constructor(version?: string, options?: Partial<ISpigotOptions>) {
-    const { buildPath, ...serverOptions } = Object.assign(
+    const { buildPath, checkPlugins, ...serverOptions } = Object.assign(
       structuredClone(SpigotServer.DefaultOptions),
       options
     )
     super(version, serverOptions)
     this.buildPath = buildPath
+    this.checkPlugins = checkPlugins
+    this.plugins = new Plugins(this)
+    this.metrics.options.tickCommands = true
+    this.bukkit = new YamlConfig(path.join(this.path, 'bukkit.yml'))
+    this.spigot = new YamlConfig(path.join(this.path, 'spigot.yml'))
+    this.#paper = new YamlConfig(path.join(this.path, 'paper.yml'))
+    this.#paperGlobal = new YamlConfig(
+      path.join(this.path, 'config', 'paper-global.yml')
+    )
+    this.#paperWorldDefaults = new YamlConfig(
+      path.join(this.path, 'config', 'paper-world-defaults.yml')
+    )
+
+    //* The server rewrites its configs while starting
+    this.on('stateUpdate', state => {
+      if (state !== 'RUNNING' || this.attached) return
+      this.log('Loading configs...')
+      this.loadConfigs()
+        .then(() => this.log('Successfully loaded configs.'))
+        .catch(() => this.error('Failed to load configs.'))
+    })
+  }
+
+  /**
+   * Reloads the yml configs that exist, the server rewrites them when it starts
+   */
+  async loadConfigs() {
+    const configs = [
+      this.bukkit,
+      this.spigot,
+      this.#paper,
+      this.#paperGlobal,
+      this.#paperWorldDefaults
+    ]
+    await Promise.all(
+      configs.filter(config => config.exists).map(config => config.loadConfig())
+    )
   }
 
   async downloadJar(
@@ -38,7 +86,10 @@ export default class SpigotServer extends Server {
   ) {
     if (existsSync(this.buildtool) && !force) return
     await download(
-      'https://hub.spigotmc.org/jenkins/job/BuildTools/lastSuccessfulBuild/artifact/target/BuildTools.jar',
+      Versions.url(
+        'spigot',
+        '/jenkins/job/BuildTools/lastSuccessfulBuild/artifact/target/BuildTools.jar'
+      ),
       this.buildtool,
       undefined,
       progressCallback
@@ -80,10 +131,12 @@ export default class SpigotServer extends Server {
   }
 
   async start() {
-    const { path, jar, env, args, buildjar, buildPath } = this
+    const { path, buildjar, buildPath } = this
+    let starting = false
     try {
       if (!this.canStart) throw new ServerStateError(this.state)
       this.state = 'STARTING'
+      starting = true
       this.log('Attempting to start server...')
 
       //* If the server directory doesn't exist then create the directory
@@ -92,6 +145,9 @@ export default class SpigotServer extends Server {
         await mkdir(path, { recursive: true })
       }
 
+      //* BuildTools needs a matching java runtime as well as the server
+      if (this.autoJava) await this.prepareJava()
+
       const isCorrectVersion = await this.validateVersion()
 
       //* If the jar doesn't exist then download build tools and build the jar file
@@ -103,90 +159,79 @@ export default class SpigotServer extends Server {
 
         if (!existsSync(buildjar)) {
           this.log('Downloading build tools...')
-          try {
-            await this.downloadJar(true, (cur, tot) =>
-              this.emit('download', buildjar, cur, tot)
-            )
-          } catch (err) {
-            this.state = 'CRASHED'
-            throw err
-          }
+          await this.downloadJar(true, (cur, tot) =>
+            this.emit('download', buildjar, cur, tot)
+          )
         }
 
         this.log('Building server jar...')
-        try {
-          await this.buildServerJar(
-            true,
-            (cur, tot) => this.emit('download', buildjar, cur, tot),
-            data => this.log(data, false)
-          )
-        } catch (err) {
-          this.state = 'CRASHED'
-          throw err
-        }
+        await this.buildServerJar(
+          true,
+          (cur, tot) => this.emit('download', buildjar, cur, tot),
+          data => this.log(data, false)
+        )
       }
 
-      this.log('Starting child process...')
-      const process = spawn('java', args, { env, cwd: path, windowsHide: true })
+      //* Fail before starting rather than halfway through loading plugins
+      if (this.checkPlugins) {
+        const { order, problems } = await this.plugins.check()
+        //* Spigot skips jars without a plugin description and loads the rest
+        problems
+          .filter(problem => problem.type === 'invalid')
+          .forEach(problem => this.warn(problem.message))
+        const fatal = problems.filter(problem => problem.type !== 'invalid')
+        if (fatal.length)
+          throw new PluginError(fatal.map(p => p.message).join(' '))
+        if (order.length) this.log(`Loading plugins: ${order.join(', ')}`)
+      }
 
-      process.on('error', err => {
-        this.error(`Failed to start the server. ${err.message}`)
-        this.state = 'CRASHED'
-      })
+      await this.checkJava()
 
-      //* Message Handler
-      process.stdout.on('data', data => {
-        //* Create an array of the messages received
-        const messages = String(data)
-          .replace(Server.PrefixPattern, '\n$&')
-          .split('\n')
-          .filter(m => !!m)
-        //* Loop over the messages
-        messages.forEach(message => {
-          //* Determine if the message was a warning, error or info
-          Server.WarnPattern.test(message)
-            ? this.warn(message, false)
-            : Server.ErrorPattern.test(message)
-            ? this.error(message, false)
-            : this.log(message, false)
-          //* Check if the message is a key message (done, stop or eula)
-          if (Server.DonePattern.test(message)) {
-            this.log('Server is running...')
-            this.state = 'RUNNING'
-            this.log('Loading properties...')
-            this.properties
-              .loadProperties()
-              .then(() => this.log('Successfully loaded properties.'))
-              .catch(() => this.error('Failed to load properties.'))
-          } else if (Server.StopPattern.test(message)) {
-            this.log('Server is stopping...')
-            this.state = 'STOPPING'
-          } else if (Server.EulaPattern.test(message)) {
-            this.warn(
-              'Server was unable to start, the user must accept the EULA...'
-            )
-            this.state = 'STOPPING'
-            this.emit('eula')
-          }
-        })
-      })
+      //* The properties have to point at the pack before rcon or the server reads them
+      await this.resourcePack
+        .restore()
+        .catch(err =>
+          this.warn(`Failed to serve the resource pack. ${err.message}`)
+        )
 
-      //* Handle server shutdown
-      process.on('exit', (code, signal) => {
-        this.state = code === 0 ? 'STOPPED' : 'CRASHED'
-        if (code === null) this.error(`Server exited with signal: ${signal}`)
-        else if (code !== 0) this.error(`Server exited with code: ${code}`)
-        else this.log('Server Stopped')
-        this.process = undefined
+      if (this.enableRcon) await this.setupRcon()
+      if (this.checkCancelled()) return
+
+      this.log('Starting child process...')
+      const process = spawn('java', this.args, {
+        env: this.env,
+        cwd: path,
+        windowsHide: true
       })
 
+      this.handleProcess(process)
+
       this.process = process
     } catch (err: any) {
+      //* A start that fails while preparing crashes, so it can be started or stopped again
+      if (starting && this.state === 'STARTING') this.state = 'CRASHED'
       this.error(err.message)
       throw err
     }
   }
 
+  /** The `paper.yml` config used by paper before 1.19 */
+  get paper() {
+    return this.#paper.exists ? this.#paper : undefined
+  }
+
+  /** The `config/paper-global.yml` config used by paper 1.19+ */
+  get paperGlobal() {
+    return this.#paperGlobal.exists ? this.#paperGlobal : undefined
+  }
+
+  /** The `config/paper-world-defaults.yml` config used by paper 1.19+ */
+  get paperWorldDefaults() {
+    return this.#paperWorldDefaults.exists
+      ? this.#paperWorldDefaults
+      : undefined
+  }
+
   get buildtool() {
     return path.join(this.buildPath, 'BuildTools.jar')
   }
@@ -1,22 +1,82 @@
 import path from 'path'
+import type { IResourcePackOptions } from './resourcePack'
 
 /** The system path to the java executable installed by the user  */
 export const DEFAULT_JAVA_PATH =
   (process.env.JAVA_HOME && path.join(process.env.JAVA_HOME, 'bin')) || ''
 
+/**
+ * Compares two minecraft versions, snapshots are treated as newer than any release
+ * @returns A negative number if `a` is older than `b`, a positive number if it's newer and 0 if they're equal
+ */
+export function compareVersions(a: string, b: string) {
+  const parse = (version: string) => {
+    const match = version.match(/^(\d+)\.(\d+)(?:\.(\d+))?/)
+    if (!match) return [Infinity, 0, 0]
+    return [Number(match[1]), Number(match[2]), Number(match[3] || 0)]
+  }
+  const aParts = parse(a)
+  const bParts = parse(b)
+  for (let i = 0; i < aParts.length; i++) {
+    if (aParts[i] < bParts[i]) return -1
+    if (aParts[i] > bParts[i]) return 1
+  }
+  return 0
+}
+
 export interface IOptions {
   minMemory: number
   softMaxMemory: number
   maxMemory: number
   javaPath: string
   path: string
+  /** Whether to download a java runtime matching the server version */
+  autoJava: boolean
+  /** Whether to enable rcon and send commands through it once the server is running */
+  enableRcon: boolean
+  /** When to restart the server after it exits, servers stopped with `stop()` are never restarted */
+  restartPolicy: RestartPolicy
+  /** The most restarts allowed within `restartWindow` before the server is considered to be crash looping */
+  maxRestarts: number
+  /** In milliseconds */
+  restartWindow: number
+  /** The delay before the first restart in milliseconds, doubled for every restart within `restartWindow` */
+  restartDelay: number
+  maxRestartDelay: number
+  /** How long the server can go without printing anything before it's considered hung in milliseconds, 0 disables the check */
+  watchdogTimeout: number
+  /** How often to ping the server in milliseconds, 0 disables the check */
+  watchdogPingInterval: number
+  /** How many pings in a row can fail before the server is considered hung */
+  watchdogMaxFailedPings: number
+  /** How the resource pack is served, see {@link IResourcePackOptions} */
+  resourcePack: Partial<IResourcePackOptions>
 }
 
-export type LogType = 'ERROR' | 'WARN' | 'INFO'
+export type RestartPolicy = 'never' | 'on-crash' | 'always'
+
+/** Why the server is being restarted */
+export type RestartReason = 'crashed' | 'stopped' | 'hung'
+
+export type LogType = 'FATAL' | 'ERROR' | 'WARN' | 'INFO' | 'DEBUG'
+
+/** Where a log came from, `internal` logs are written by MCServerJS */
+export type LogStream = 'stdout' | 'stderr' | 'internal'
 
 export interface IServerLog {
+  /** The level of the log */
   type: LogType
+  /** The full text as printed, including continuation lines */
   content: string
+  /** The text without the time, thread, level and logger prefix */
+  message: string
+  /** The time as printed by the server */
+  time?: string
+  timestamp: Date
+  thread?: string
+  /** The logger or plugin that wrote the log, e.g. `Essentials` */
+  logger?: string
+  stream: LogStream
 }
 
 export type ServerStatus =
@@ -33,3 +93,16 @@ export class ServerStateError extends Error {
     )
   }
 }
+
+export class JavaVersionError extends Error {
+  required: number
+  found: number
+
+  constructor(required: number, found: number) {
+    super(
+      `Incompatible Java: The server requires java ${required} or newer but java ${found} was found.`
+    )
+    this.required = required
+    this.found = found
+  }
+}
@@ -1,6 +1,8 @@
 import { existsSync } from 'fs'
-import { request } from './request'
-import { readFile, writeFile } from 'fs/promises'
+import { request, StatusError } from './request'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { homedir } from 'os'
+import path from 'path'
 
 export interface IVersionRule {
   action: 'allow' | 'disallow'
@@ -158,42 +160,214 @@ export interface IFabricVersionManifest {
   versions: IFabricVersion
 }
 
+export interface IForgePromotions {
+  homepage: string
+  promos: Record<string, string>
+}
+
+export interface IForgeVersionManifest {
+  latest: { release: string }
+  promos: Record<string, string>
+  versions: Record<string, string[]>
+}
+
+export interface IVersionsBaseUrls {
+  /** Serves the version manifest and the version details */
+  mojang: string
+  /** Serves the spigot versions and BuildTools */
+  spigot: string
+  fabric: string
+  /** Serves the forge promotions */
+  forgeFiles: string
+  /** Serves the forge versions and installers */
+  forgeMaven: string
+}
+
+export interface IVersionsOptions {
+  /** The directory the manifests are cached in */
+  cachePath: string
+  /** How long a cached manifest is used before it's checked for changes in milliseconds */
+  ttl: number
+  /** Only use the cache, nothing is downloaded */
+  offline: boolean
+  /** The urls of the services, they can point at mirrors */
+  baseUrls: IVersionsBaseUrls
+}
+
+interface ICacheEntry {
+  url: string
+  /** When the data was downloaded or last checked as a unix timestamp in milliseconds */
+  fetchedAt: number
+  etag?: string
+  lastModified?: string
+  data: unknown
+}
+
+type VersionData = Record<
+  string,
+  {
+    hasClientMappings: boolean
+    hasServer: boolean
+    hasServerMappings: boolean
+  }
+>
+
+/**
+ * The versions of each server type, manifests are cached on disk and only downloaded again once they're older than the TTL
+ */
 export default class Versions {
+  static DefaultOptions: IVersionsOptions = {
+    cachePath: path.join(
+      process.env.XDG_CACHE_HOME || path.join(homedir(), '.cache'),
+      'mcserver.js'
+    ),
+    ttl: 60 * 60 * 1000,
+    offline: false,
+    baseUrls: {
+      mojang: 'https://piston-meta.mojang.com',
+      spigot: 'https://hub.spigotmc.org',
+      fabric: 'https://meta.fabricmc.net',
+      forgeFiles: 'https://files.minecraftforge.net',
+      forgeMaven: 'https://maven.minecraftforge.net'
+    }
+  }
+
+  static options: IVersionsOptions = structuredClone(Versions.DefaultOptions)
+
   private static spigotManifestVersionRegex =
     /^<a href="(\d+\.\d+(?:\.\d)?)\.json">/gim
 
-  static #fabricManifest?: Promise<IFabricVersionManifest>
-  static #spigotManifest?: Promise<ISpigotVersionManifest>
-  static #manifest?: Promise<IVersionManifest>
-  static #versions?: Record<
+  private static forgeManifestVersionRegex = /<version>([^<]+)<\/version>/gim
+
+  /** The manifests loaded by this process and when they were loaded */
+  static #loaded = new Map<
     string,
-    {
-      hasClientMappings: boolean
-      hasServer: boolean
-      hasServerMappings: boolean
+    { promise: Promise<unknown>; time: number }
+  >()
+  static #versions?: VersionData
+
+  /**
+   * Changes the options, manifests that were loaded with the previous options are loaded again
+   */
+  static configure(
+    options: Partial<Omit<IVersionsOptions, 'baseUrls'>> & {
+      baseUrls?: Partial<IVersionsBaseUrls>
+    }
+  ) {
+    const { baseUrls, ...rest } = options
+    Object.assign(this.options, rest)
+    Object.assign(this.options.baseUrls, baseUrls)
+    this.#loaded.clear()
+    this.#versions = undefined
+  }
+
+  /**
+   * Gets the url of a service
+   * @param service The service from `baseUrls`
+   * @param route The path on the service
+   */
+  static url(service: keyof IVersionsBaseUrls, route: string) {
+    return this.options.baseUrls[service].replace(/\/$/, '') + route
+  }
+
+  /**
+   * Gets data from the cache, it's downloaded if it isn't cached or is older than the TTL
+   *
+   * Outdated data is checked with its ETag, and used anyway if it can't be downloaded.
+   * @param name The name of the cache file
+   * @throws {VersionsError} If the data isn't cached in offline mode or can't be downloaded
+   */
+  static async #cached<T>(
+    name: string,
+    url: string,
+    type: 'json' | 'text' = 'json',
+    ttl = this.options.ttl
+  ): Promise<T> {
+    const { cachePath, offline } = this.options
+    const file = path.join(cachePath, `${name}.json`)
+    let cached: ICacheEntry | undefined
+    if (existsSync(file))
+      cached = await readFile(file, 'utf-8')
+        .then(content => JSON.parse(content) as ICacheEntry)
+        .catch(() => undefined)
+    if (offline) {
+      if (!cached)
+        throw new VersionsError(
+          `'${name}' isn't cached in '${cachePath}' and can't be downloaded in offline mode.`
+        )
+      return cached.data as T
     }
-  >
+    //* Data from another url is only used if the url can't be reached
+    const current = cached?.url === url ? cached : undefined
+    if (current && Date.now() - current.fetchedAt < ttl)
+      return current.data as T
+
+    const headers: Record<string, string> = {}
+    if (current?.etag) headers['If-None-Match'] = current.etag
+    if (current?.lastModified)
+      headers['If-Modified-Since'] = current.lastModified
+    let entry: ICacheEntry
+    try {
+      const res = await fetch(url, { headers })
+      if (res.status === 304 && current)
+        entry = { ...current, fetchedAt: Date.now() }
+      else if (!res.ok) throw new StatusError(res.status, res.statusText)
+      else
+        entry = {
+          url,
+          fetchedAt: Date.now(),
+          etag: res.headers.get('ETag') || undefined,
+          lastModified: res.headers.get('Last-Modified') || undefined,
+          data: type === 'json' ? await res.json() : await res.text()
+        }
+    } catch (err: any) {
+      if (cached) return cached.data as T
+      throw new VersionsError(
+        `Failed to download '${name}' from ${url}. ${err.message}`
+      )
+    }
+    await mkdir(path.dirname(file), { recursive: true })
+    await writeFile(file, JSON.stringify(entry), 'utf-8')
+    return entry.data as T
+  }
+
+  /** Mojang's urls point at their own servers, so they're moved to the mirror */
+  static #mirror(url: string) {
+    return url.replace(
+      /^https:\/\/piston-meta\.mojang\.com/,
+      this.options.baseUrls.mojang.replace(/\/$/, '')
+    )
+  }
+
+  /**
+   * Gets the details of a version, versions don't change so they're cached for good
+   * @throws {VersionsError} If the version isn't cached in offline mode or can't be downloaded
+   */
+  static getVersion(info: IVersionInfo) {
+    return this.#cached<IVersion>(
+      path.join('versions', info.id),
+      this.#mirror(info.url),
+      'json',
+      Infinity
+    )
+  }
 
   private static async save() {
+    const { cachePath } = this.options
+    await mkdir(cachePath, { recursive: true })
     await writeFile(
-      './versions.json',
+      path.join(cachePath, 'versions.json'),
       JSON.stringify(this.#versions, null, 2),
       'utf-8'
     )
   }
 
-  private static async load(): Promise<
-    Record<
-      string,
-      {
-        hasClientMappings: boolean
-        hasServer: boolean
-        hasServerMappings: boolean
-      }
-    >
-  > {
-    if (!existsSync('./versions.json')) return {}
-    const rawData = await readFile('./versions.json', 'utf-8')
+  private static async load(): Promise<VersionData> {
+    let file = path.join(this.options.cachePath, 'versions.json')
+    //* Older versions kept the file in the working directory
+    if (!existsSync(file)) file = './versions.json'
+    if (!existsSync(file)) return {}
+    const rawData = await readFile(file, 'utf-8')
     const data = JSON.parse(rawData)
     return data
   }
@@ -205,17 +379,30 @@ export default class Versions {
       info => versionData[info.id] === undefined
     )
     if (filteredInfo.length) {
+      const { offline, cachePath } = this.options
+      //* Offline only the versions cached by `getVersion` can be used
       const versions = await Promise.all(
-        filteredInfo.map(info => request<IVersion>(info.url))
+        filteredInfo.map(info =>
+          offline
+            ? this.getVersion(info).catch(() => undefined)
+            : request<IVersion>(this.#mirror(info.url))
+        )
       )
+      let missing = 0
       versions.forEach(version => {
+        if (!version) return missing++
         versionData[version.id] = {
           hasClientMappings: !!version.downloads.client_mappings,
           hasServer: !!version.downloads.server,
           hasServerMappings: !!version.downloads.server_mappings
         }
       })
-      await this.save()
+      if (missing)
+        process.emitWarning(
+          `The details of ${missing} versions aren't cached in '${cachePath}', they're left out in offline mode.`,
+          'VersionsWarning'
+        )
+      if (missing < versions.length) await this.save()
     }
     return this.#versions
   }
@@ -224,7 +411,7 @@ export default class Versions {
     return this.manifest.then(async manifest => {
       const versionData = await this.getVersionData(manifest)
       const versions = manifest.versions.filter(
-        info => versionData[info.id].hasServer
+        info => versionData[info.id]?.hasServer
       )
       return {
         latest: {
@@ -240,7 +427,7 @@ export default class Versions {
     return this.manifest.then(async manifest => {
       const versionData = await this.getVersionData(manifest)
       const versions = manifest.versions.filter(
-        info => versionData[info.id].hasServerMappings
+        info => versionData[info.id]?.hasServerMappings
       )
       return {
         latest: {
@@ -256,7 +443,7 @@ export default class Versions {
     return this.manifest.then(async manifest => {
       const versionData = await this.getVersionData(manifest)
       const versions = manifest.versions.filter(
-        info => versionData[info.id].hasClientMappings
+        info => versionData[info.id]?.hasClientMappings
       )
       return {
         latest: {
@@ -269,17 +456,20 @@ export default class Versions {
   }
 
   static get manifest() {
-    if (!this.#manifest)
-      this.#manifest = request<IVersionManifest>(
-        'https://piston-meta.mojang.com/mc/game/version_manifest_v2.json'
+    return this.#load('manifest', () =>
+      this.#cached<IVersionManifest>(
+        'manifest',
+        this.url('mojang', '/mc/game/version_manifest_v2.json')
       )
-    return this.#manifest
+    )
   }
 
   static get spigotManifest() {
-    if (!this.#spigotManifest) {
-      this.#spigotManifest = request<string>(
-        'https://hub.spigotmc.org/versions/'
+    return this.#load('spigot', () =>
+      this.#cached<string>(
+        'spigot',
+        this.url('spigot', '/versions/'),
+        'text'
       ).then(content => {
         const versions = []
         let match
@@ -292,19 +482,20 @@ export default class Versions {
             bMajor - aMajor || bMinor - aMinor || (bPatch || 0) - (aPatch || 0)
           )
         })
-        return {
+        const manifest: ISpigotVersionManifest = {
           latest: { release: versions[0] },
           versions
         }
+        return manifest
       })
-    }
-    return this.#spigotManifest
+    )
   }
 
   static get fabricManifest() {
-    if (!this.#fabricManifest) {
-      this.#fabricManifest = request<IFabricVersion>(
-        'https://meta.fabricmc.net/v2/versions'
+    return this.#load('fabric', () =>
+      this.#cached<IFabricVersion>(
+        'fabric',
+        this.url('fabric', '/v2/versions')
       ).then(versions => {
         const manifest: IFabricVersionManifest = {
           latest: {
@@ -324,9 +515,96 @@ export default class Versions {
 
         return manifest
       })
-    }
-    return this.#fabricManifest
+    )
+  }
+
+  static get forgeManifest() {
+    return this.#load('forge', () =>
+      Promise.all([
+        this.#cached<IForgePromotions>(
+          'forge-promotions',
+          this.url(
+            'forgeFiles',
+            '/net/minecraftforge/forge/promotions_slim.json'
+          )
+        ),
+        this.#cached<string>(
+          'forge',
+          this.url(
+            'forgeMaven',
+            '/net/minecraftforge/forge/maven-metadata.xml'
+          ),
+          'text'
+        )
+      ]).then(([{ promos }, content]) => {
+        const versions: Record<string, string[]> = {}
+        let match
+        while (
+          (match = this.forgeManifestVersionRegex.exec(content)) !== null
+        ) {
+          const id = match[1]
+          const game = id.slice(0, id.indexOf('-'))
+          if (!versions[game]) versions[game] = []
+          versions[game].push(id)
+        }
+        const games = Object.keys(versions).sort((a, b) => {
+          const [aMajor, aMinor, aPatch] = a.split('.').map(v => Number(v))
+          const [bMajor, bMinor, bPatch] = b.split('.').map(v => Number(v))
+          return (
+            bMajor - aMajor || bMinor - aMinor || (bPatch || 0) - (aPatch || 0)
+          )
+        })
+        const release =
+          games.find(game => promos[`${game}-recommended`]) ||
+          games.find(game => promos[`${game}-latest`]) ||
+          games[0] ||
+          ''
+        const manifest: IForgeVersionManifest = {
+          latest: { release },
+          promos,
+          versions
+        }
+        return manifest
+      })
+    )
+  }
+
+  /**
+   * Resolves the full maven version id of a forge build (e.g. `1.20.1-47.2.0`)
+   * @param version The minecraft version
+   * @param forge The forge version, defaults to the recommended or latest build
+   */
+  static async getForgeVersion(version: string, forge?: string) {
+    const { promos, versions } = await this.forgeManifest
+    const builds = versions[version] || []
+    if (!forge)
+      forge = promos[`${version}-recommended`] || promos[`${version}-latest`]
+    const id = forge
+      ? builds.find(
+          build =>
+            build === `${version}-${forge}` ||
+            build.startsWith(`${version}-${forge}-`)
+        )
+      : builds[0]
+    return id
   }
 
   static getFabricLoaders(version: string) {}
+
+  /**
+   * Shares a loaded manifest until it's older than the TTL, then it's checked against the cache again. Failed loads are forgotten.
+   */
+  static #load<T>(name: string, load: () => Promise<T>): Promise<T> {
+    const loaded = this.#loaded.get(name)
+    if (loaded && Date.now() - loaded.time < this.options.ttl)
+      return loaded.promise as Promise<T>
+    const promise = load().catch(err => {
+      if (this.#loaded.get(name)?.promise === promise) this.#loaded.delete(name)
+      throw err
+    })
+    this.#loaded.set(name, { promise, time: Date.now() })
+    return promise
+  }
 }
+
+export class VersionsError extends Error {}
@@ -0,0 +1,181 @@
+import { createHash } from 'crypto'
+import EventEmitter from 'events'
+import { IncomingMessage } from 'http'
+import { Duplex } from 'stream'
+
+export interface WebSocketEvents {
+  message: (data: string) => void
+  close: (code: number) => void
+}
+
+export interface WebSocket {
+  on<U extends keyof WebSocketEvents>(
+    event: U,
+    listener: WebSocketEvents[U]
+  ): this
+  once<U extends keyof WebSocketEvents>(
+    event: U,
+    listener: WebSocketEvents[U]
+  ): this
+  emit<U extends keyof WebSocketEvents>(
+    event: U,
+    ...args: Parameters<WebSocketEvents[U]>
+  ): boolean
+}
+
+/**
+ * A minimal server side WebSocket connection, text messages, pings and closing are supported
+ */
+export class WebSocket extends EventEmitter {
+  #socket: Duplex
+  #buffer = Buffer.alloc(0)
+  #fragments: Buffer[] = []
+  #closed = false
+
+  static GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+  /** The largest message accepted from a client in bytes */
+  static MaxPayload = 1024 * 1024
+
+  static Opcode = {
+    CONTINUATION: 0x0,
+    TEXT: 0x1,
+    BINARY: 0x2,
+    CLOSE: 0x8,
+    PING: 0x9,
+    PONG: 0xa
+  }
+
+  constructor(socket: Duplex) {
+    super()
+    this.#socket = socket
+    socket.on('data', data => this.#receive(data))
+    socket.on('close', () => this.#onClose(1006))
+    socket.on('error', () => socket.destroy())
+  }
+
+  /**
+   * Completes the handshake of an upgrade request
+   * @returns The connection, or undefined if the request isn't a WebSocket handshake
+   */
+  static accept(req: IncomingMessage, socket: Duplex) {
+    const key = req.headers['sec-websocket-key']
+    if (
+      typeof key !== 'string' ||
+      req.headers.upgrade?.toLowerCase() !== 'websocket'
+    )
+      return
+    const accept = createHash('sha1')
+      .update(key + WebSocket.GUID)
+      .digest('base64')
+    socket.write(
+      [
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        ''
+      ].join('\r\n')
+    )
+    return new WebSocket(socket)
+  }
+
+  get closed() {
+    return this.#closed
+  }
+
+  send(data: string) {
+    if (this.#closed) return
+    this.#socket.write(
+      WebSocket.encode(WebSocket.Opcode.TEXT, Buffer.from(data, 'utf-8'))
+    )
+  }
+
+  close(code = 1000) {
+    if (this.#closed) return
+    const payload = Buffer.alloc(2)
+    payload.writeUInt16BE(code)
+    this.#socket.end(WebSocket.encode(WebSocket.Opcode.CLOSE, payload))
+    this.#onClose(code)
+  }
+
+  #receive(data: Buffer) {
+    this.#buffer = Buffer.concat([this.#buffer, data])
+    let frame
+    while ((frame = WebSocket.decode(this.#buffer))) {
+      this.#buffer = this.#buffer.subarray(frame.length)
+      this.#handle(frame.fin, frame.opcode, frame.payload)
+    }
+    //* The frame header is at most 14 bytes
+    if (this.#buffer.length > WebSocket.MaxPayload + 14) this.close(1009)
+  }
+
+  #handle(fin: boolean, opcode: number, payload: Buffer) {
+    const { Opcode } = WebSocket
+    if (opcode === Opcode.CLOSE) {
+      const code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005
+      return this.close(code === 1005 ? 1000 : code)
+    }
+    if (opcode === Opcode.PING)
+      return this.#socket.write(WebSocket.encode(Opcode.PONG, payload))
+    if (opcode === Opcode.PONG) return
+    this.#fragments.push(payload)
+    if (!fin) return
+    const message = Buffer.concat(this.#fragments)
+    this.#fragments = []
+    this.emit('message', message.toString('utf-8'))
+  }
+
+  #onClose(code: number) {
+    if (this.#closed) return
+    this.#closed = true
+    this.emit('close', code)
+  }
+
+  static encode(opcode: number, payload: Buffer) {
+    const length = payload.length
+    const size = length < 126 ? 2 : length < 65536 ? 4 : 10
+    const header = Buffer.alloc(size)
+    header[0] = 0x80 | opcode
+    if (size === 2) header[1] = length
+    else if (size === 4) {
+      header[1] = 126
+      header.writeUInt16BE(length, 2)
+    } else {
+      header[1] = 127
+      header.writeUInt32BE(Math.floor(length / 2 ** 32), 2)
+      header.writeUInt32BE(length % 2 ** 32, 6)
+    }
+    return Buffer.concat([header, payload])
+  }
+
+  /**
+   * Decodes the first frame in a buffer, masked payloads are unmasked
+   * @returns The frame and the number of bytes it used, or undefined if the frame is incomplete
+   */
+  static decode(buffer: Buffer) {
+    if (buffer.length < 2) return
+    const fin = (buffer[0] & 0x80) !== 0
+    const opcode = buffer[0] & 0x0f
+    const masked = (buffer[1] & 0x80) !== 0
+    let length = buffer[1] & 0x7f
+    let offset = 2
+    if (length === 126) {
+      if (buffer.length < 4) return
+      length = buffer.readUInt16BE(2)
+      offset = 4
+    } else if (length === 127) {
+      if (buffer.length < 10) return
+      length = buffer.readUInt32BE(2) * 2 ** 32 + buffer.readUInt32BE(6)
+      offset = 10
+    }
+    const mask = masked ? buffer.subarray(offset, offset + 4) : undefined
+    if (masked) offset += 4
+    if (buffer.length < offset + length) return
+    const payload = Buffer.from(buffer.subarray(offset, offset + length))
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+    return { fin, opcode, payload, length: offset + length }
+  }
+}
+
+export default WebSocket
@@ -0,0 +1,433 @@
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { EOL } from 'os'
+
+export type YamlScalar = string | number | boolean | null
+
+export type YamlValue = YamlScalar | YamlValue[] | { [key: string]: YamlValue }
+
+interface IYamlRecord {
+  /** The line number in the file */
+  line: number
+  indent: number
+  /** The column the text starts at */
+  start: number
+  /** The line content without indentation or comments */
+  text: string
+}
+
+interface IYamlNode {
+  value: YamlValue
+  /** The line of the key, -1 for the document */
+  line: number
+  /** The indentation of the key */
+  indent: number
+  /** The last line belonging to the node */
+  end: number
+  /** The columns of a value written on the same line as its key */
+  inline?: [number, number]
+  children?: Map<string, IYamlNode>
+}
+
+/**
+ * A YAML backed config file, e.g. `bukkit.yml` or `spigot.yml`
+ *
+ * Values are edited in place so comments and the order of keys are kept when the file is written.
+ * Only the block style YAML written by the server is supported.
+ */
+export default class YamlConfig {
+  #lines: string[] = []
+  #root?: IYamlNode
+  #eol = EOL
+  static KeyPattern =
+    /^((?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#:][^:]*?|[^\s"'#][^:]*?(?::(?!\s|$)[^:]*?)+))\s*:(?:\s+(.*))?$/
+  static SequencePattern = /^-(?:\s+|$)/
+  static IndentSize = 2
+
+  path: string
+
+  constructor(path: string) {
+    this.path = path
+  }
+
+  get exists() {
+    return existsSync(this.path)
+  }
+
+  async loadConfig() {
+    const content = await readFile(this.path, 'utf-8')
+    this.#eol = content.includes('\r\n') ? '\r\n' : '\n'
+    this.#lines = content.replace(/\r?\n/gm, '\n').split('\n')
+    this.#root = YamlConfig.parse(this.#lines)
+  }
+
+  /** Gets every value in the file */
+  async getValues() {
+    const root = await this.#getRoot()
+    return root.value
+  }
+
+  /**
+   * Gets a value by its dotted path, e.g. `settings.restart-on-crash`
+   * @param key The dotted path, sequence items are accessed by their index
+   */
+  async get<T extends YamlValue = YamlValue>(key: string) {
+    const { node } = YamlConfig.find(await this.#getRoot(), key.split('.'))
+    return node?.value as T | undefined
+  }
+
+  /**
+   * Sets a value by its dotted path, missing keys are added to their parent
+   * @param key The dotted path
+   * @param value The new value
+   */
+  async set(key: string, value: YamlValue) {
+    await this.setValues({ [key]: value })
+    return value
+  }
+
+  /**
+   * Sets multiple values by their dotted paths and writes the file once
+   * @param values The new values keyed by their dotted paths
+   */
+  async setValues(values: Record<string, YamlValue>) {
+    await this.#getRoot()
+    const lines = [...this.#lines]
+    let root = this.#root as IYamlNode
+    for (const [key, value] of Object.entries(values)) {
+      YamlConfig.update(lines, root, key.split('.'), value)
+      root = YamlConfig.parse(lines)
+    }
+    await writeFile(this.path, lines.join(this.#eol), 'utf-8')
+    this.#lines = lines
+    this.#root = root
+    return root.value
+  }
+
+  async #getRoot() {
+    if (!this.#root && this.exists) await this.loadConfig()
+    if (!this.#root) this.#root = YamlConfig.parse(this.#lines)
+    return this.#root
+  }
+
+  /**
+   * Parses the lines of a YAML document
+   * @param lines The lines of the document
+   */
+  static parse(lines: string[]): IYamlNode {
+    const records: IYamlRecord[] = []
+    lines.forEach((raw, line) => {
+      const text = this.stripComment(raw.trim())
+      if (!text || text === '---' || text.startsWith('%')) return
+      const indent = raw.length - raw.trimStart().length
+      records.push({ line, indent, start: indent, text })
+    })
+
+    let pos = 0
+
+    const parseBlock = (parent: IYamlNode, indent: number) => {
+      const record = records[pos]
+      if (!record || record.indent < indent) return
+      if (this.SequencePattern.test(record.text))
+        parseSequence(parent, record.indent)
+      else parseMap(parent, record.indent)
+    }
+
+    const parseEntry = (node: IYamlNode, record: IYamlRecord, rest: string) => {
+      const start = record.start + record.text.length - rest.length
+      if (/^[|>][+-]?\d*$/.test(rest)) {
+        //* Block scalars continue until the indentation returns
+        const block: string[] = []
+        while (records[pos] && records[pos].indent > record.indent) {
+          const next = records[pos++]
+          block.push(lines[next.line].trim())
+          node.end = next.line
+        }
+        node.value = block.join(rest.startsWith('|') ? '\n' : ' ')
+      } else if (rest) {
+        node.value = this.parseScalar(rest)
+        node.inline = [start, record.start + record.text.length]
+      } else {
+        const next = records[pos]
+        const isChild =
+          next &&
+          (next.indent > record.indent ||
+            (next.indent === record.indent &&
+              this.SequencePattern.test(next.text) &&
+              !this.SequencePattern.test(record.text)))
+        if (isChild) parseBlock(node, next.indent)
+      }
+    }
+
+    const parseMap = (parent: IYamlNode, indent: number) => {
+      const value: Record<string, YamlValue> = {}
+      parent.value = value
+      parent.children = new Map()
+      while (records[pos] && records[pos].indent === indent) {
+        const record = records[pos]
+        if (this.SequencePattern.test(record.text)) break
+        const match = record.text.match(this.KeyPattern)
+        if (!match) break
+        pos++
+        const key = String(this.parseScalar(match[1]))
+        const node: IYamlNode = {
+          value: null,
+          line: record.line,
+          indent,
+          end: record.line
+        }
+        parseEntry(node, record, match[2] || '')
+        value[key] = node.value
+        parent.children.set(key, node)
+        parent.end = Math.max(parent.end, node.end)
+      }
+    }
+
+    const parseSequence = (parent: IYamlNode, indent: number) => {
+      const value: YamlValue[] = []
+      parent.value = value
+      parent.children = new Map()
+      while (records[pos] && records[pos].indent === indent) {
+        const record = records[pos]
+        const match = record.text.match(this.SequencePattern)
+        if (!match) break
+        const rest = record.text.slice(match[0].length)
+        const node: IYamlNode = {
+          value: null,
+          line: record.line,
+          indent,
+          end: record.line
+        }
+        if (
+          rest &&
+          !/^["'[{]/.test(rest) &&
+          !this.SequencePattern.test(rest) &&
+          this.KeyPattern.test(rest)
+        ) {
+          //* A mapping that starts on the same line as the item
+          const offset = record.text.length - rest.length
+          records[pos] = {
+            ...record,
+            indent: record.indent + offset,
+            start: record.start + offset,
+            text: rest
+          }
+          parseMap(node, record.indent + offset)
+        } else {
+          pos++
+          parseEntry(node, record, rest)
+        }
+        parent.children.set(String(value.length), node)
+        value.push(node.value)
+        parent.end = Math.max(parent.end, node.end)
+      }
+    }
+
+    const root: IYamlNode = { value: {}, line: -1, indent: -1, end: -1 }
+    parseBlock(root, 0)
+    if (root.value === null) root.value = {}
+    return root
+  }
+
+  /**
+   * Finds the node at a path and the index of the first missing key
+   */
+  static find(root: IYamlNode, keys: string[]) {
+    let node = root
+    for (let i = 0; i < keys.length; i++) {
+      const child = node.children?.get(keys[i])
+      if (!child) return { node: undefined, parent: node, missing: i }
+      node = child
+    }
+    return { node, parent: node, missing: keys.length }
+  }
+
+  /**
+   * Writes a value into the lines of a document
+   */
+  static update(
+    lines: string[],
+    root: IYamlNode,
+    keys: string[],
+    value: YamlValue
+  ) {
+    const { node, parent, missing } = this.find(root, keys)
+    if (node) {
+      const childIndent = node.indent + this.IndentSize
+      const isBlock = this.isBlock(value)
+      const line = lines[node.line]
+      //* Blocks have no inline value, the value goes before a comment on the key
+      const keyEnd = this.stripComment(line).length
+      const [start, end] = node.inline || [keyEnd, keyEnd]
+      const comment = line.slice(end)
+      const head = line.slice(0, start).trimEnd()
+      lines[node.line] = isBlock
+        ? `${head}${comment}`
+        : `${head} ${this.serializeScalar(value)}${comment}`
+      lines.splice(
+        node.line + 1,
+        node.end - node.line,
+        ...(isBlock ? this.serialize(value, childIndent) : [])
+      )
+      return
+    }
+
+    if (Array.isArray(parent.value) || typeof parent.value !== 'object')
+      throw new Error(
+        `Unable to set '${keys.join('.')}', '${keys
+          .slice(0, missing)
+          .join('.')}' isn't a mapping.`
+      )
+    const nested = keys
+      .slice(missing)
+      .reduceRight<YamlValue>((child, key) => ({ [key]: child }), value)
+    const siblings = parent.children ? [...parent.children.values()] : []
+    const indent = siblings.length
+      ? siblings[0].indent
+      : parent.indent + (parent.line < 0 ? 1 : this.IndentSize)
+    //* Drop the empty flow mapping (`key: {}`) the new keys replace
+    if (parent.line >= 0 && parent.inline) {
+      const line = lines[parent.line]
+      lines[parent.line] =
+        line.slice(0, parent.inline[0]).trimEnd() + line.slice(parent.inline[1])
+    }
+    let at = parent.end + 1
+    if (parent.line < 0) at = Math.max(parent.end + 1, 0)
+    //* Keep the trailing empty line at the end of the file
+    if (at >= lines.length && lines[lines.length - 1] === '')
+      at = lines.length - 1
+    lines.splice(at, 0, ...this.serialize(nested, Math.max(indent, 0)))
+  }
+
+  static isBlock(
+    value: YamlValue
+  ): value is YamlValue[] | Record<string, YamlValue> {
+    if (Array.isArray(value)) return value.length > 0
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      Object.keys(value).length > 0
+    )
+  }
+
+  /**
+   * Serializes a mapping or sequence to block style lines
+   */
+  static serialize(value: YamlValue, indent: number): string[] {
+    const pad = ''.padEnd(indent)
+    if (Array.isArray(value))
+      return value.flatMap(item =>
+        this.isBlock(item)
+          ? Array.isArray(item)
+            ? [`${pad}-`, ...this.serialize(item, indent + this.IndentSize)]
+            : this.serialize(item, indent + this.IndentSize).map((line, i) =>
+                i === 0 ? `${pad}- ${line.trimStart()}` : line
+              )
+          : [`${pad}- ${this.serializeScalar(item)}`]
+      )
+    if (value && typeof value === 'object')
+      return Object.entries(value).flatMap(([key, item]) =>
+        this.isBlock(item)
+          ? [
+              `${pad}${this.serializeKey(key)}:`,
+              ...this.serialize(item, indent + this.IndentSize)
+            ]
+          : [`${pad}${this.serializeKey(key)}: ${this.serializeScalar(item)}`]
+      )
+    return [`${pad}${this.serializeScalar(value)}`]
+  }
+
+  static serializeKey(key: string) {
+    return /^[\w-][\w\s./-]*$/.test(key) && !/\s$/.test(key)
+      ? key
+      : this.serializeScalar(key)
+  }
+
+  static serializeScalar(value: YamlValue): string {
+    if (Array.isArray(value)) return '[]'
+    if (value === null) return 'null'
+    if (typeof value === 'object') return '{}'
+    if (typeof value !== 'string') return String(value)
+    const needsQuotes =
+      value === '' ||
+      value !== value.trim() ||
+      /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+      /: |:$| #|\n/.test(value) ||
+      //* YAML 1.1 parsers read these as booleans
+      /^(y|n|yes|no|on|off)$/i.test(value) ||
+      typeof this.parseScalar(value) !== 'string'
+    return needsQuotes ? `'${value.replace(/'/g, "''")}'` : value
+  }
+
+  static parseScalar(raw: string): YamlValue {
+    const value = raw.trim()
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      try {
+        return JSON.parse(value)
+      } catch {
+        return value.slice(1, -1)
+      }
+    }
+    if (value.startsWith("'") && value.endsWith("'") && value.length > 1)
+      return value.slice(1, -1).replace(/''/g, "'")
+    if (value.startsWith('[') && value.endsWith(']'))
+      return this.splitFlow(value.slice(1, -1)).map(item =>
+        this.parseScalar(item)
+      )
+    if (value.startsWith('{') && value.endsWith('}'))
+      return this.splitFlow(value.slice(1, -1)).reduce<
+        Record<string, YamlValue>
+      >((map, item) => {
+        const index = item.search(/:(\s|$)/)
+        if (index < 0) return map
+        const key = String(this.parseScalar(item.slice(0, index)))
+        map[key] = this.parseScalar(item.slice(index + 1))
+        return map
+      }, {})
+    if (/^(~|null)$/i.test(value)) return null
+    if (/^true$/i.test(value)) return true
+    if (/^false$/i.test(value)) return false
+    if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value))
+      return Number(value)
+    return value
+  }
+
+  static splitFlow(content: string) {
+    const items: string[] = []
+    let depth = 0
+    let quote = ''
+    let current = ''
+    for (const char of content) {
+      if (quote) {
+        if (char === quote) quote = ''
+      } else if (char === '"' || char === "'") quote = char
+      else if (char === '[' || char === '{') depth++
+      else if (char === ']' || char === '}') depth--
+      else if (char === ',' && depth === 0) {
+        items.push(current)
+        current = ''
+        continue
+      }
+      current += char
+    }
+    if (current.trim()) items.push(current)
+    return items.map(item => item.trim())
+  }
+
+  static stripComment(text: string) {
+    let quote = ''
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if (quote) {
+        if (char === quote) quote = ''
+      } else if (
+        (char === '"' || char === "'") &&
+        /(^|[\s:[{,-])$/.test(text.slice(0, i))
+      )
+        quote = char
+      else if (char === '#' && (i === 0 || /\s/.test(text[i - 1])))
+        return text.slice(0, i).trimEnd()
+    }
+    return text.trimEnd()
+  }
+}
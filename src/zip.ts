@@ -0,0 +1,237 @@
+import { open, readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { promisify } from 'util'
+import {
+  deflateRaw as deflateRawCallback,
+  inflateRaw as inflateRawCallback
+} from 'zlib'
+
+const inflateRaw = promisify(inflateRawCallback)
+const deflateRaw = promisify(deflateRawCallback)
+
+export interface IZipEntry {
+  /** The path of the entry inside the archive, using forward slashes */
+  name: string
+  /** 0 if the entry is stored, 8 if it's deflated */
+  method: number
+  compressedSize: number
+  size: number
+  /** The offset of the local file header */
+  offset: number
+}
+
+/** A zip archive on disk, or in memory, e.g. a jar nested in another jar */
+export type ZipSource = string | Buffer
+
+interface IZipReader {
+  size: number
+  read: (position: number, length: number) => Promise<Buffer>
+  close: () => Promise<void>
+}
+
+const EndOfCentralDirectory = 0x06054b50
+const CentralDirectoryHeader = 0x02014b50
+const LocalFileHeader = 0x04034b50
+
+async function openZip(source: ZipSource): Promise<IZipReader> {
+  if (Buffer.isBuffer(source))
+    return {
+      size: source.length,
+      read: async (position, length) =>
+        source.subarray(position, position + length),
+      close: async () => {}
+    }
+  const handle = await open(source, 'r')
+  const { size } = await handle.stat()
+  return {
+    size,
+    read: async (position, length) => {
+      const buffer = Buffer.alloc(length)
+      await handle.read(buffer, 0, length, position)
+      return buffer
+    },
+    close: () => handle.close()
+  }
+}
+
+function describe(source: ZipSource) {
+  return Buffer.isBuffer(source) ? 'The archive' : `'${source}'`
+}
+
+async function readEntries(zip: IZipReader, source: ZipSource) {
+  //* The end record is 22 bytes followed by a comment of up to 65535 bytes
+  const tailSize = Math.min(zip.size, 22 + 65535)
+  const tail = await zip.read(zip.size - tailSize, tailSize)
+  let end = -1
+  for (let i = tailSize - 22; i >= 0; i--)
+    if (tail.readUInt32LE(i) === EndOfCentralDirectory) {
+      end = i
+      break
+    }
+  if (end === -1) throw new ZipError(`${describe(source)} isn't a zip archive.`)
+  const count = tail.readUInt16LE(end + 10)
+  const directorySize = tail.readUInt32LE(end + 12)
+  const directoryOffset = tail.readUInt32LE(end + 16)
+  if (count === 0xffff || directoryOffset === 0xffffffff)
+    throw new ZipError(`${describe(source)} uses zip64 which isn't supported.`)
+
+  const directory = await zip.read(directoryOffset, directorySize)
+  const entries: IZipEntry[] = []
+  let offset = 0
+  for (let i = 0; i < count; i++) {
+    if (directory.readUInt32LE(offset) !== CentralDirectoryHeader)
+      throw new ZipError(
+        `The central directory of ${describe(source)} is corrupt.`
+      )
+    const nameLength = directory.readUInt16LE(offset + 28)
+    const extraLength = directory.readUInt16LE(offset + 30)
+    const commentLength = directory.readUInt16LE(offset + 32)
+    entries.push({
+      name: directory.toString('utf-8', offset + 46, offset + 46 + nameLength),
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      offset: directory.readUInt32LE(offset + 42)
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+/**
+ * Lists the files in a zip archive, e.g. a jar, from its central directory
+ * @throws {ZipError} If the source isn't a zip archive or uses zip64
+ */
+export async function listZipEntries(source: ZipSource) {
+  const zip = await openZip(source)
+  try {
+    return await readEntries(zip, source)
+  } finally {
+    await zip.close()
+  }
+}
+
+/**
+ * Reads a file from a zip archive
+ * @param name The path of the file inside the archive
+ * @returns The content of the file, or undefined if the archive doesn't contain it
+ * @throws {ZipError} If the source isn't a zip archive or the entry is compressed with an unsupported method
+ */
+export async function readZipEntry(source: ZipSource, name: string) {
+  const zip = await openZip(source)
+  try {
+    const entry = (await readEntries(zip, source)).find(
+      entry => entry.name === name
+    )
+    if (!entry) return
+    const header = await zip.read(entry.offset, 30)
+    if (header.readUInt32LE(0) !== LocalFileHeader)
+      throw new ZipError(
+        `The entry '${name}' in ${describe(source)} is corrupt.`
+      )
+    //* The local header can have a different extra field to the central directory
+    const start =
+      entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28)
+    const data = await zip.read(start, entry.compressedSize)
+    if (entry.method === 0) return Buffer.from(data)
+    if (entry.method === 8) return inflateRaw(data)
+    throw new ZipError(
+      `The entry '${name}' in ${describe(source)} uses compression method ${
+        entry.method
+      } which isn't supported.`
+    )
+  } finally {
+    await zip.close()
+  }
+}
+
+let crcTable: Uint32Array | undefined
+
+/** Computes the CRC-32 zip archives store for each entry */
+function crc32(data: Buffer) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+async function listFiles(folder: string, prefix = ''): Promise<string[]> {
+  const files: string[] = []
+  const entries = await readdir(path.join(folder, prefix), {
+    withFileTypes: true
+  })
+  for (const entry of entries) {
+    const name = prefix ? `${prefix}/${entry.name}` : entry.name
+    if (entry.isDirectory()) files.push(...(await listFiles(folder, name)))
+    else if (entry.isFile()) files.push(name)
+  }
+  return files
+}
+
+/**
+ * Zips the files in a folder, files are deflated unless that makes them larger
+ *
+ * Entries are sorted and have the same timestamp, so the same files always produce the same archive.
+ * @throws {ZipError} If the archive would need zip64
+ */
+export async function createZip(folder: string) {
+  const names = (await listFiles(folder)).sort()
+  if (names.length >= 0xffff)
+    throw new ZipError(`'${folder}' has too many files to zip.`)
+  //* 1980-01-01 00:00, the earliest date a zip can store
+  const time = 0
+  const date = (1 << 5) | 1
+  const local: Buffer[] = []
+  const central: Buffer[] = []
+  let offset = 0
+  for (const name of names) {
+    const data = await readFile(path.join(folder, name))
+    const deflated = await deflateRaw(data)
+    const stored = deflated.length >= data.length
+    const content = stored ? data : deflated
+    const nameBuffer = Buffer.from(name, 'utf-8')
+    const crc = crc32(data)
+    if (offset + 30 + nameBuffer.length + content.length > 0xffffffff)
+      throw new ZipError(`'${folder}' is too large to zip.`)
+
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(LocalFileHeader, 0)
+    header.writeUInt16LE(20, 4)
+    //* Names are always UTF-8
+    header.writeUInt16LE(1 << 11, 6)
+    header.writeUInt16LE(stored ? 0 : 8, 8)
+    header.writeUInt16LE(time, 10)
+    header.writeUInt16LE(date, 12)
+    header.writeUInt32LE(crc, 14)
+    header.writeUInt32LE(content.length, 18)
+    header.writeUInt32LE(data.length, 22)
+    header.writeUInt16LE(nameBuffer.length, 26)
+    local.push(header, nameBuffer, content)
+
+    const entry = Buffer.alloc(46)
+    entry.writeUInt32LE(CentralDirectoryHeader, 0)
+    entry.writeUInt16LE(20, 4)
+    entry.writeUInt16LE(20, 6)
+    header.copy(entry, 8, 6, 30)
+    entry.writeUInt32LE(offset, 42)
+    central.push(entry, nameBuffer)
+    offset += header.length + nameBuffer.length + content.length
+  }
+  const directorySize = central.reduce((size, part) => size + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(EndOfCentralDirectory, 0)
+  end.writeUInt16LE(names.length, 8)
+  end.writeUInt16LE(names.length, 10)
+  end.writeUInt32LE(directorySize, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...local, ...central, end])
+}
+
+export class ZipError extends Error {}